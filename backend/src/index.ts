@@ -3,18 +3,22 @@ import cors from "cors";
 import dotenv from "dotenv";
 import mongoose from "mongoose";
 import { createServer } from "http";
+import { createClient } from "redis";
 
 // Routes
 import authRoutes from "./routes/auth";
 import meetingRoutes from "./routes/meetings";
+import rtcRoutes from "./routes/rtc";
 
 // SFU
 import { SFUServer } from "./services/SFUServer";
+import { RecordingWorker } from "./services/RecordingWorker";
 
 dotenv.config();
 
 const app = express();
 const server = createServer(app);
+const recordingWorker = new RecordingWorker();
 
 /* ===================== GLOBAL REQUEST LOGGER ===================== */
 app.use((req, res, next) => {
@@ -46,6 +50,9 @@ const MONGO_URI = process.env.MONGODB_URI || "mongodb://localhost:27017/webrtc-a
 
 mongoose.connect(MONGO_URI).then(() => {
   console.log(`[DB] Connected: ${MONGO_URI}`);
+  recordingWorker.resumePending().catch(err => {
+    console.error("[WORKER] Failed to resume pending recordings:", err);
+  });
 }).catch(err => {
   console.error("[DB] Connection failed:", err);
   process.exit(1);
@@ -59,6 +66,14 @@ mongoose.connection.on("disconnected", () => {
   console.warn("[DB] Disconnected");
 });
 
+/* ===================== REDIS ===================== */
+const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
+const redis = createClient({ url: REDIS_URL });
+
+redis.on("error", err => {
+  console.error("[REDIS] Runtime error:", err);
+});
+
 /* ===================== ROUTES ===================== */
 app.get("/api/health", (req, res) => {
   res.json({
@@ -70,9 +85,11 @@ app.get("/api/health", (req, res) => {
 
 app.use("/api/auth", authRoutes);
 app.use("/api/meetings", meetingRoutes);
+app.use("/api/rtc", rtcRoutes);
 
 console.log("[ROUTES] /api/auth -> register, login, me");
 console.log("[ROUTES] /api/meetings -> meeting APIs");
+console.log("[ROUTES] /api/rtc -> ice-servers");
 
 app.get("/", (req, res) => {
   res.json({ status: "WebRTC SFU backend running" });
@@ -86,7 +103,7 @@ app.get("/health", (req, res) => {
 });
 
 /* ===================== SFU ===================== */
-const sfuServer = new SFUServer(server);
+const sfuServer = new SFUServer(server, recordingWorker, redis);
 console.log("[SFU] Signaling + Media server initialized");
 
 /* ===================== ERROR HANDLER ===================== */
@@ -104,10 +121,18 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 /* ===================== BOOT ===================== */
 const PORT = process.env.PORT || 3001;
 
-server.listen(PORT, () => {
-  console.log("==================================");
-  console.log(`[BOOT] Server running on :${PORT}`);
-  console.log(`[BOOT] ENV: ${process.env.NODE_ENV || "development"}`);
-  console.log(`[BOOT] Frontend: ${process.env.FRONTEND_URL || "http://localhost:3000"}`);
-  console.log("==================================");
+redis.connect().then(() => {
+  console.log(`[REDIS] Connected: ${REDIS_URL}`);
+  return sfuServer.start();
+}).then(() => {
+  server.listen(PORT, () => {
+    console.log("==================================");
+    console.log(`[BOOT] Server running on :${PORT}`);
+    console.log(`[BOOT] ENV: ${process.env.NODE_ENV || "development"}`);
+    console.log(`[BOOT] Frontend: ${process.env.FRONTEND_URL || "http://localhost:3000"}`);
+    console.log("==================================");
+  });
+}).catch(err => {
+  console.error("[BOOT] Signaling startup failed:", err);
+  process.exit(1);
 });
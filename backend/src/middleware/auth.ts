@@ -18,7 +18,8 @@ export const authenticateToken = async (
     const token = authHeader && authHeader.split(" ")[1];
     if (!token) {
       console.warn("[AUTH-MW] No Bearer token provided");
-      return res.status(401).json({ message: "Access token required" });
+      res.status(401).json({ message: "Access token required" });
+      return;
     }
 
     let decoded: { userId: string };
@@ -27,13 +28,15 @@ export const authenticateToken = async (
       console.log("[AUTH-MW] JWT verified for userId:", decoded.userId);
     } catch (err) {
       console.error("[AUTH-MW] JWT verification failed:", err);
-      return res.status(403).json({ message: "Invalid or expired token" });
+      res.status(403).json({ message: "Invalid or expired token" });
+      return;
     }
 
     const user = await User.findById(decoded.userId);
     if (!user) {
       console.error("[AUTH-MW] Token valid but user not found in DB:", decoded.userId);
-      return res.status(401).json({ message: "Invalid token" });
+      res.status(401).json({ message: "Invalid token" });
+      return;
     }
 
     console.log("[AUTH-MW] Authenticated user:", user._id.toString(), user.email);
@@ -42,6 +45,7 @@ export const authenticateToken = async (
     next();
   } catch (error) {
     console.error("[AUTH-MW] Unexpected auth middleware error:", error);
-    return res.status(403).json({ message: "Invalid or expired token" });
+    res.status(403).json({ message: "Invalid or expired token" });
+    return;
   }
 };
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IChatParticipant {
+  userId: mongoose.Types.ObjectId;
+  name?: string;
+  socketId: string;
+}
+
+export interface IChatMessage extends Document {
+  // Meeting.meetingId this message was sent in
+  meetingId: string;
+  from: IChatParticipant;
+  // Set on direct messages, which only the two participants may read
+  to?: IChatParticipant;
+  // Markdown source, rendered by the clients
+  text: string;
+  sentAt: Date;
+}
+
+const chatParticipantSchema = new Schema<IChatParticipant>(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: {
+      type: String,
+    },
+    socketId: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const chatMessageSchema = new Schema<IChatMessage>({
+  meetingId: {
+    type: String,
+    required: true,
+  },
+  from: {
+    type: chatParticipantSchema,
+    required: true,
+  },
+  to: {
+    type: chatParticipantSchema,
+  },
+  text: {
+    type: String,
+    required: true,
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// History is always read for one meeting in sending order
+chatMessageSchema.index({ meetingId: 1, sentAt: 1 });
+
+export const ChatMessage = mongoose.model<IChatMessage>("ChatMessage", chatMessageSchema);
@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+export const VIDEO_CODECS = ["VP8", "VP9", "H264", "AV1"] as const;
+
+export type VideoCodec = (typeof VIDEO_CODECS)[number];
+
 export interface IMeeting extends Document {
   title: string;
   meetingId: string;
@@ -9,6 +13,12 @@ export interface IMeeting extends Document {
   createdAt: Date;
   endedAt?: Date;
   maxParticipants: number;
+  // Host's codec preference, most preferred first
+  videoCodecs: VideoCodec[];
+  // Video is forwarded from this many recent speakers (plus pinned ones)
+  lastN: number;
+  // Media is encrypted end to end by the clients; the SFU only forwards it
+  e2ee: boolean;
 }
 
 const meetingSchema = new Schema<IMeeting>({
@@ -49,6 +59,19 @@ const meetingSchema = new Schema<IMeeting>({
     type: Number,
     default: 50,
   },
+  videoCodecs: {
+    type: [{ type: String, enum: VIDEO_CODECS }],
+    default: ["VP8"],
+  },
+  lastN: {
+    type: Number,
+    default: 9,
+    min: 1,
+  },
+  e2ee: {
+    type: Boolean,
+    default: false,
+  },
 });
 
 export const Meeting = mongoose.model<IMeeting>("Meeting", meetingSchema);
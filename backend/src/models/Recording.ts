@@ -0,0 +1,123 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IRecordingTrack {
+  file: string;
+  kind: "audio" | "video";
+  source: "camera" | "screen";
+  socketId: string;
+  userId?: mongoose.Types.ObjectId;
+  startOffset: number;
+  endOffset?: number;
+}
+
+export type RecordingStatus = "recording" | "queued" | "processing" | "ready" | "failed";
+
+export type RecordingLayout = "grid" | "speaker";
+
+export interface IRecording extends Document {
+  recordingId: string;
+  meetingId: string;
+  startedBy: mongoose.Types.ObjectId;
+  status: RecordingStatus;
+  layout: RecordingLayout;
+  // Composite rendering progress in percent
+  progress: number;
+  directory: string;
+  tracks: IRecordingTrack[];
+  outputFile?: string;
+  error?: string;
+  startedAt: Date;
+  stoppedAt?: Date;
+  completedAt?: Date;
+}
+
+const recordingTrackSchema = new Schema<IRecordingTrack>(
+  {
+    file: {
+      type: String,
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ["audio", "video"],
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ["camera", "screen"],
+      default: "camera",
+    },
+    socketId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+    startOffset: {
+      type: Number,
+      required: true,
+    },
+    endOffset: {
+      type: Number,
+    },
+  },
+  { _id: false }
+);
+
+const recordingSchema = new Schema<IRecording>({
+  recordingId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  // Meeting.meetingId this recording belongs to
+  meetingId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  startedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ["recording", "queued", "processing", "ready", "failed"],
+    default: "recording",
+  },
+  layout: {
+    type: String,
+    enum: ["grid", "speaker"],
+    default: "grid",
+  },
+  progress: {
+    type: Number,
+    default: 0,
+  },
+  directory: {
+    type: String,
+    required: true,
+  },
+  tracks: [recordingTrackSchema],
+  outputFile: {
+    type: String,
+  },
+  error: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  stoppedAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+});
+
+export const Recording = mongoose.model<IRecording>("Recording", recordingSchema);
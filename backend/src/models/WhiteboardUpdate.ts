@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One Yjs update of a meeting whiteboard. Updates are stored apart so a busy
+// board never runs into the document size limit.
+export interface IWhiteboardUpdate extends Document {
+  // Meeting.meetingId the board belongs to
+  meetingId: string;
+  update: Buffer;
+  // Byte length of update, so compaction can plan without loading them
+  size: number;
+  // Bumped whenever compaction rewrites the update
+  version: number;
+  createdAt: Date;
+}
+
+const whiteboardUpdateSchema = new Schema<IWhiteboardUpdate>({
+  meetingId: {
+    type: String,
+    required: true,
+  },
+  update: {
+    type: Buffer,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  version: {
+    type: Number,
+    default: 0,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// A board is always read whole, in arrival order
+whiteboardUpdateSchema.index({ meetingId: 1, _id: 1 });
+
+export const WhiteboardUpdate = mongoose.model<IWhiteboardUpdate>(
+  "WhiteboardUpdate",
+  whiteboardUpdateSchema
+);
@@ -1,8 +1,12 @@
 import express from "express";
+import path from "path";
 import { body, validationResult } from "express-validator";
 import { v4 as uuidv4 } from "uuid";
-import { Meeting } from "../models/Meeting";
+import { Meeting, VIDEO_CODECS } from "../models/Meeting";
+import { Recording } from "../models/Recording";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { loadWhiteboard } from "../services/WhiteboardStore";
+import { loadChatHistory } from "../services/ChatStore";
 
 const router = express.Router();
 
@@ -10,7 +14,13 @@ const router = express.Router();
 router.post(
   "/create",
   authenticateToken,
-  [body("title").trim().isLength({ min: 1 })],
+  [
+    body("title").trim().isLength({ min: 1 }),
+    body("videoCodecs").optional().isArray({ min: 1 }),
+    body("videoCodecs.*").isIn(VIDEO_CODECS),
+    body("lastN").optional().isInt({ min: 1, max: 50 }).toInt(),
+    body("e2ee").optional().isBoolean().toBoolean(),
+  ],
   async (req: AuthRequest, res) => {
     console.log(`[MEETING] Create request by user ${req.user?._id}`);
 
@@ -21,7 +31,7 @@ router.post(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { title } = req.body;
+      const { title, videoCodecs, lastN, e2ee } = req.body;
       const meetingId = uuidv4().substring(0, 8);
 
       console.log(`[MEETING] Creating meeting "${title}" with id ${meetingId}`);
@@ -31,6 +41,9 @@ router.post(
         meetingId,
         hostId: req.user!._id,
         participants: [req.user!._id],
+        ...(videoCodecs && { videoCodecs: Array.from(new Set(videoCodecs)) }),
+        ...(lastN && { lastN }),
+        ...(e2ee && { e2ee }),
       });
 
       await meeting.save();
@@ -47,6 +60,9 @@ router.post(
           host: meeting.hostId,
           participants: meeting.participants,
           isActive: meeting.isActive,
+          videoCodecs: meeting.videoCodecs,
+          lastN: meeting.lastN,
+          e2ee: meeting.e2ee,
           createdAt: meeting.createdAt,
         },
       });
@@ -96,6 +112,9 @@ router.post(
           host: meeting.hostId,
           participants: meeting.participants,
           isActive: meeting.isActive,
+          videoCodecs: meeting.videoCodecs,
+          lastN: meeting.lastN,
+          e2ee: meeting.e2ee,
           createdAt: meeting.createdAt,
         },
       });
@@ -121,6 +140,10 @@ router.get("/:meetingId", authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ message: "Meeting not found" });
     }
 
+    const recordings = await Recording.find({ meetingId })
+      .populate("startedBy", "name email")
+      .sort({ startedAt: -1 });
+
     res.json({
       meeting: {
         id: meeting._id,
@@ -129,8 +152,24 @@ router.get("/:meetingId", authenticateToken, async (req: AuthRequest, res) => {
         host: meeting.hostId,
         participants: meeting.participants,
         isActive: meeting.isActive,
+        videoCodecs: meeting.videoCodecs,
+        lastN: meeting.lastN,
+        e2ee: meeting.e2ee,
         createdAt: meeting.createdAt,
         endedAt: meeting.endedAt,
+        recordings: recordings.map((recording) => ({
+          id: recording._id,
+          recordingId: recording.recordingId,
+          status: recording.status,
+          layout: recording.layout,
+          progress: recording.progress,
+          startedBy: recording.startedBy,
+          startedAt: recording.startedAt,
+          stoppedAt: recording.stoppedAt,
+          completedAt: recording.completedAt,
+          error: recording.error,
+          tracks: recording.tracks,
+        })),
       },
     });
   } catch (error) {
@@ -139,6 +178,133 @@ router.get("/:meetingId", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+/* ===================== DOWNLOAD RECORDING ===================== */
+router.get(
+  "/:meetingId/recordings/:recordingId/file",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    const { meetingId, recordingId } = req.params;
+    console.log(`[MEETING] Download ${recordingId} of ${meetingId} by ${req.user?._id}`);
+
+    try {
+      const meeting = await Meeting.findOne({ meetingId });
+      const recording = await Recording.findOne({ meetingId, recordingId });
+
+      if (!meeting || !recording) {
+        console.warn(`[MEETING] Recording not found: ${recordingId}`);
+        res.status(404).json({ message: "Recording not found" });
+        return;
+      }
+
+      const isMember =
+        meeting.hostId.toString() === req.user!._id.toString() ||
+        meeting.participants.some(
+          (p) => p.toString() === req.user!._id.toString()
+        );
+
+      if (!isMember) {
+        console.warn(`[MEETING] Unauthorized download attempt by ${req.user!._id}`);
+        res.status(403).json({ message: "Only meeting participants can download recordings" });
+        return;
+      }
+
+      if (recording.status !== "ready" || !recording.outputFile) {
+        res.status(409).json({
+          message: "Recording is not ready yet",
+          status: recording.status,
+          progress: recording.progress,
+        });
+        return;
+      }
+
+      res.download(
+        path.join(recording.directory, recording.outputFile),
+        `${meetingId}-${recordingId}.mp4`
+      );
+    } catch (error) {
+      console.error(`[MEETING] Download failed for ${recordingId}:`, error);
+      res.status(500).json({ message: "Server error", error });
+    }
+  }
+);
+
+/* ===================== WHITEBOARD ===================== */
+router.get(
+  "/:meetingId/whiteboard",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    const { meetingId } = req.params;
+    console.log(`[MEETING] Whiteboard of ${meetingId} requested by ${req.user?._id}`);
+
+    try {
+      const meeting = await Meeting.findOne({ meetingId });
+
+      if (!meeting) {
+        console.warn(`[MEETING] Whiteboard fetch failed. Not found: ${meetingId}`);
+        res.status(404).json({ message: "Meeting not found" });
+        return;
+      }
+
+      const isMember =
+        meeting.hostId.toString() === req.user!._id.toString() ||
+        meeting.participants.some(
+          (p) => p.toString() === req.user!._id.toString()
+        );
+
+      if (!isMember) {
+        console.warn(`[MEETING] Unauthorized whiteboard fetch by ${req.user!._id}`);
+        res.status(403).json({ message: "Only meeting participants can open the whiteboard" });
+        return;
+      }
+
+      // A Yjs update the client applies to an empty board
+      const update = await loadWhiteboard(meetingId);
+      res.json({ update: update && Buffer.from(update).toString("base64") });
+    } catch (error) {
+      console.error(`[MEETING] Whiteboard fetch failed for ${meetingId}:`, error);
+      res.status(500).json({ message: "Server error", error });
+    }
+  }
+);
+
+/* ===================== CHAT HISTORY ===================== */
+router.get(
+  "/:meetingId/chat",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    const { meetingId } = req.params;
+    console.log(`[MEETING] Chat of ${meetingId} requested by ${req.user?._id}`);
+
+    try {
+      const meeting = await Meeting.findOne({ meetingId });
+
+      if (!meeting) {
+        console.warn(`[MEETING] Chat fetch failed. Not found: ${meetingId}`);
+        res.status(404).json({ message: "Meeting not found" });
+        return;
+      }
+
+      const isMember =
+        meeting.hostId.toString() === req.user!._id.toString() ||
+        meeting.participants.some(
+          (p) => p.toString() === req.user!._id.toString()
+        );
+
+      if (!isMember) {
+        console.warn(`[MEETING] Unauthorized chat fetch by ${req.user!._id}`);
+        res.status(403).json({ message: "Only meeting participants can read the chat" });
+        return;
+      }
+
+      const messages = await loadChatHistory(meetingId, req.user!._id.toString());
+      res.json({ messages });
+    } catch (error) {
+      console.error(`[MEETING] Chat fetch failed for ${meetingId}:`, error);
+      res.status(500).json({ message: "Server error", error });
+    }
+  }
+);
+
 /* ===================== END MEETING ===================== */
 router.post(
   "/end/:meetingId",
@@ -198,6 +364,9 @@ router.get(
         host: meeting.hostId,
         participants: meeting.participants,
         isActive: meeting.isActive,
+        videoCodecs: meeting.videoCodecs,
+        lastN: meeting.lastN,
+        e2ee: meeting.e2ee,
         createdAt: meeting.createdAt,
         endedAt: meeting.endedAt,
       }));
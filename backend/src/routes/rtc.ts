@@ -0,0 +1,63 @@
+import express from "express";
+import crypto from "crypto";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+
+const router = express.Router();
+
+const DEFAULT_STUN_URLS = "stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302";
+// Clients fetch new credentials on every join and resume
+const DEFAULT_TURN_TTL_SEC = 60 * 60;
+
+const splitUrls = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+
+/**
+ * TURN REST API credentials (coturn `use-auth-secret`): the username carries
+ * its own expiry and the password is an HMAC of it with the shared secret, so
+ * the TURN server can check them without talking to this backend.
+ */
+const createTurnCredential = (userId: string, secret: string, ttlSec: number) => {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSec;
+  const username = `${expiresAt}:${userId}`;
+  const credential = crypto.createHmac("sha1", secret).update(username).digest("base64");
+
+  return { username, credential, expiresAt };
+};
+
+/* ===================== ICE SERVERS ===================== */
+router.get("/ice-servers", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const iceServers: { urls: string[]; username?: string; credential?: string }[] = [];
+
+    const stunUrls = splitUrls(process.env.STUN_URLS ?? DEFAULT_STUN_URLS);
+    if (stunUrls.length > 0) {
+      iceServers.push({ urls: stunUrls });
+    }
+
+    const turnUrls = splitUrls(process.env.TURN_URLS);
+    const turnSecret = process.env.TURN_SECRET;
+    let expiresAt: number | undefined;
+
+    if (turnUrls.length > 0 && turnSecret) {
+      const ttl = Number(process.env.TURN_CREDENTIAL_TTL) || DEFAULT_TURN_TTL_SEC;
+      const turn = createTurnCredential(req.user!._id.toString(), turnSecret, ttl);
+      iceServers.push({ urls: turnUrls, username: turn.username, credential: turn.credential });
+      expiresAt = turn.expiresAt;
+    } else {
+      console.warn("[RTC] TURN_URLS or TURN_SECRET not set, returning STUN only");
+    }
+
+    res.json({
+      iceServers,
+      ...(expiresAt && { expiresAt: new Date(expiresAt * 1000) }),
+    });
+  } catch (error) {
+    console.error("[RTC] ICE server lookup failed:", error);
+    res.status(500).json({ message: "Server error", error });
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+// ssrc-audio-level carries -dBov in 0..127 (0 = loudest, 127 = silence)
+const MAX_AUDIO_LEVEL = 127;
+const SPEAKING_THRESHOLD = 0.5;
+const DOMINANT_SPEAKER_HOLD_TICKS = 3;
+
+interface SpeakerState {
+  samples: number[];
+  level: number;
+}
+
+/**
+ * Tracks audio levels for one meeting and decides who the dominant speaker
+ * is. A new speaker must be the loudest for a few consecutive ticks before
+ * taking over, so short coughs or crosstalk don't flip the layout.
+ */
+export class ActiveSpeakerDetector {
+  private speakers: Map<string, SpeakerState> = new Map();
+  private dominant: string | null = null;
+  private candidate: string | null = null;
+  private candidateTicks = 0;
+
+  public addSample(socketId: string, audioLevel: number) {
+    let speaker = this.speakers.get(socketId);
+    if (!speaker) {
+      speaker = { samples: [], level: 0 };
+      this.speakers.set(socketId, speaker);
+    }
+
+    speaker.samples.push((MAX_AUDIO_LEVEL - audioLevel) / MAX_AUDIO_LEVEL);
+  }
+
+  public remove(socketId: string) {
+    this.speakers.delete(socketId);
+    if (this.candidate === socketId) this.candidate = null;
+    if (this.dominant === socketId) this.dominant = null;
+  }
+
+  public get dominantSpeaker() {
+    return this.dominant;
+  }
+
+  /**
+   * Averages the samples collected since the last tick. Returns the
+   * normalized (0..1) level per participant and the new dominant speaker
+   * when it changed.
+   */
+  public tick(): { levels: Record<string, number>; dominantSpeaker?: string } {
+    const levels: Record<string, number> = {};
+
+    this.speakers.forEach((speaker, socketId) => {
+      const { samples } = speaker;
+      speaker.level = samples.length
+        ? samples.reduce((sum, s) => sum + s, 0) / samples.length
+        : 0;
+      speaker.samples = [];
+      levels[socketId] = Math.round(speaker.level * 100) / 100;
+    });
+
+    const [loudest] = Array.from(this.speakers.entries())
+      .filter(([, speaker]) => speaker.level >= SPEAKING_THRESHOLD)
+      .sort(([, a], [, b]) => b.level - a.level);
+
+    if (!loudest || loudest[0] === this.dominant) {
+      this.candidate = null;
+      this.candidateTicks = 0;
+      return { levels };
+    }
+
+    if (loudest[0] !== this.candidate) {
+      this.candidate = loudest[0];
+      this.candidateTicks = 0;
+    }
+
+    this.candidateTicks++;
+    if (this.candidateTicks < DOMINANT_SPEAKER_HOLD_TICKS) {
+      return { levels };
+    }
+
+    this.dominant = this.candidate;
+    this.candidate = null;
+    this.candidateTicks = 0;
+    return { levels, dominantSpeaker: this.dominant! };
+  }
+}
@@ -0,0 +1,42 @@
+import { ChatMessage, IChatMessage, IChatParticipant } from "../models/ChatMessage";
+import type { ChatMessage as ChatMessagePayload, ChatParticipant } from "../../../shared/signaling";
+
+// Meeting chat is stored as it is sent, so late joiners and the dashboard
+// can read the backlog. Direct messages are only ever returned to their
+// sender and recipient.
+
+const toParticipant = (participant: IChatParticipant): ChatParticipant => ({
+  userId: participant.userId.toString(),
+  name: participant.name,
+  socketId: participant.socketId,
+});
+
+const toPayload = (message: IChatMessage): ChatMessagePayload => ({
+  id: message.id,
+  from: toParticipant(message.from),
+  to: message.to ? toParticipant(message.to) : undefined,
+  text: message.text,
+  sentAt: message.sentAt.toISOString(),
+});
+
+export const saveChatMessage = async (
+  meetingId: string,
+  from: ChatParticipant,
+  text: string,
+  to?: ChatParticipant
+) => {
+  const message = await ChatMessage.create({ meetingId, from, to, text });
+  return toPayload(message);
+};
+
+// Messages the user may read, oldest first; the newest `limit` if given
+export const loadChatHistory = async (meetingId: string, userId: string, limit?: number) => {
+  const query = ChatMessage.find({
+    meetingId,
+    $or: [{ to: { $exists: false } }, { "from.userId": userId }, { "to.userId": userId }],
+  }).sort({ sentAt: -1, _id: -1 });
+  if (limit) query.limit(limit);
+
+  const messages = await query;
+  return messages.reverse().map(toPayload);
+};
@@ -0,0 +1,900 @@
+import {
+  RTCPeerConnection,
+  RTCRtpTransceiver,
+  RTCSessionDescriptionInit,
+  RTCIceCandidateInit,
+  MediaStream,
+  MediaStreamTrack,
+  Kind,
+  useOPUS,
+  useVP8,
+  useVP9,
+  useH264,
+  useAV1X,
+  useSdesMid,
+  useSdesRTPStreamId,
+  useRepairedRtpStreamId,
+  useAbsSendTime,
+  useAudioLevelIndication,
+  RTP_EXTENSION_URI,
+} from "werift";
+import { ActiveSpeakerDetector } from "./ActiveSpeakerDetector";
+import { MeetingRecorder } from "./MeetingRecorder";
+import {
+  ServerArgs,
+  ServerEvent,
+  SessionDescription,
+  TrackSource,
+  toStreamId,
+} from "../../../shared/signaling";
+
+export type TransportDirection = "publish" | "subscribe";
+
+// Target is a socket id or a meeting id (both are Socket.IO rooms)
+type SignalEmitter = <E extends ServerEvent>(target: string, event: E, ...args: ServerArgs<E>) => void;
+
+// Called when a peer's transports stayed down for the whole grace period
+type PeerLostHandler = (socketId: string) => void;
+
+interface SimulcastLayer {
+  rid: string;
+  height: number;
+  bitrate: number;
+}
+
+interface Producer {
+  id: string;
+  socketId: string;
+  kind: Kind;
+  source: TrackSource;
+  // Publisher's msid stream id, which tells a screen share from the camera
+  streamId?: string;
+  track: MediaStreamTrack;
+  transceiver: RTCRtpTransceiver;
+  // Simulcast encodings by rid, empty when the publisher sends a single stream
+  layers: Map<string, MediaStreamTrack>;
+  layerActivity: Map<string, number>;
+}
+
+interface Consumer {
+  producerId: string;
+  transceiver: RTCRtpTransceiver;
+  layer?: string;
+  // Video outside the subscriber's last-N set or off its screen is not forwarded
+  paused: boolean;
+  // replaceTrack is async; track changes are applied in order
+  trackSwitch: Promise<void>;
+}
+
+interface VideoSize {
+  width: number;
+  height: number;
+}
+
+interface MediaPeer {
+  socketId: string;
+  meetingId: string;
+  publishTransport?: RTCPeerConnection;
+  subscribeTransport?: RTCPeerConnection;
+  // Stream id of the screen share named in the latest publish offer
+  screenStreamId?: string;
+  producers: Map<string, Producer>;
+  consumers: Map<string, Consumer>;
+  videoSizes: Map<string, VideoSize>;
+  pinned: Set<string>;
+  // Tiles the client reports as off-screen; pageHidden covers a hidden tab
+  hiddenVideo: Set<string>;
+  pageHidden: boolean;
+  // Publishers whose video was last reported as forwarded to this peer
+  forwardedVideo?: string[];
+  negotiation: Promise<void>;
+  negotiationQueued: boolean;
+  resolveAnswer?: (answer: RTCSessionDescriptionInit) => void;
+  // The next subscribe offer restarts ICE
+  iceRestartPending: boolean;
+  // Subscribe candidates gathered before their offer went out; sent after it
+  // so the client doesn't match them against the previous ICE credentials
+  heldCandidates?: RTCIceCandidateInit[];
+  // Client subscribe candidates that arrived before its answer was applied
+  earlyCandidates?: RTCIceCandidateInit[];
+  transportStates: Partial<Record<TransportDirection, string>>;
+  // Running while a transport is disconnected; the peer is dropped when it fires
+  reconnectTimer?: NodeJS.Timeout;
+}
+
+const ANSWER_TIMEOUT_MS = 10000;
+const LAYER_UPDATE_INTERVAL_MS = 2000;
+const LAYER_INACTIVE_MS = 2000;
+const AUDIO_LEVEL_INTERVAL_MS = 250;
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 30000;
+
+// Must match the rids the client publishes (lowest first)
+const SIMULCAST_LAYERS: SimulcastLayer[] = [
+  { rid: "q", height: 180, bitrate: 150_000 },
+  { rid: "h", height: 360, bitrate: 500_000 },
+  { rid: "f", height: 720, bitrate: 1_500_000 },
+];
+
+/**
+ * Terminates every participant's WebRTC transports on the server and forwards
+ * RTP between them. Each participant has one publish transport (client -> SFU)
+ * and one subscribe transport (SFU -> client) carrying everyone else's tracks.
+ *
+ * The SFU never transcodes, so a subscriber is only offered the video codec
+ * its publisher negotiated (see SFUServer for how a meeting picks codecs).
+ *
+ * Simulcast publishers send three encodings; each subscriber is forwarded the
+ * layer that best fits the tile size it reports and its downlink estimate.
+ *
+ * Audio levels from the ssrc-audio-level header extension feed a per-meeting
+ * active speaker detector whose results are broadcast to the room.
+ *
+ * In large meetings each subscriber only receives video from the meeting's
+ * last N active speakers plus the participants it pinned; everyone else is
+ * audio only, which bounds the decoding cost per viewer. Video for tiles the
+ * viewer can't see (scrolled away, minimized, background tab) is paused too.
+ *
+ * A screen share (with its tab or system audio, if shared) is published as
+ * its own tracks next to the camera and microphone and delivered in a
+ * separate stream (see toStreamId). It is forwarded to every viewer
+ * regardless of last-N, since the presentation is what they watch.
+ *
+ * While a meeting is being recorded, every producer is also fed to the
+ * meeting's recorder (the highest simulcast layer for video).
+ *
+ * A peer whose transport drops is shown to the room as reconnecting while the
+ * client restarts ICE; it is only removed if it doesn't recover within the
+ * grace period.
+ */
+export class MediaRouter {
+  private peers: Map<string, MediaPeer> = new Map();
+  private speakerDetectors: Map<string, ActiveSpeakerDetector> = new Map();
+  private recorders: Map<string, MeetingRecorder> = new Map();
+  // Socket ids per meeting, most recent dominant speaker first
+  private speakerHistory: Map<string, string[]> = new Map();
+  private lastN: Map<string, number> = new Map();
+
+  constructor(private emit: SignalEmitter, private onPeerLost: PeerLostHandler) {
+    setInterval(() => {
+      this.peers.forEach(peer => this.updateLayers(peer));
+    }, LAYER_UPDATE_INTERVAL_MS);
+
+    setInterval(() => this.broadcastAudioLevels(), AUDIO_LEVEL_INTERVAL_MS);
+
+    console.log("[MEDIA] Media router initialized");
+  }
+
+  public join(meetingId: string, socketId: string) {
+    if (this.peers.has(socketId)) {
+      this.leave(socketId);
+    }
+
+    const peer: MediaPeer = {
+      socketId,
+      meetingId,
+      producers: new Map(),
+      consumers: new Map(),
+      videoSizes: new Map(),
+      pinned: new Set(),
+      hiddenVideo: new Set(),
+      pageHidden: false,
+      negotiation: Promise.resolve(),
+      negotiationQueued: false,
+      iceRestartPending: false,
+      transportStates: {},
+    };
+    this.peers.set(socketId, peer);
+
+    const history = this.speakerHistory.get(meetingId) || [];
+    this.speakerHistory.set(meetingId, [...history.filter(id => id !== socketId), socketId]);
+
+    const existingProducers = this.getRoomPeers(meetingId)
+      .filter(p => p.socketId !== socketId)
+      .flatMap(p => Array.from(p.producers.values()));
+
+    existingProducers.forEach(producer => this.addConsumer(peer, producer));
+    if (existingProducers.length > 0) {
+      this.renegotiate(peer);
+    }
+    this.getRoomPeers(meetingId).forEach(p => this.updateForwarding(p));
+
+    const dominantSpeaker = this.speakerDetectors.get(meetingId)?.dominantSpeaker;
+    if (dominantSpeaker) {
+      this.emit(socketId, "active-speaker-changed", { socketId: dominantSpeaker });
+    }
+
+    console.log(`[MEDIA] ${socketId} attached to ${meetingId} with ${existingProducers.length} tracks to receive`);
+  }
+
+  public leave(socketId: string) {
+    const peer = this.peers.get(socketId);
+    if (!peer) return;
+
+    this.peers.delete(socketId);
+    peer.resolveAnswer = undefined;
+    clearTimeout(peer.reconnectTimer);
+
+    this.speakerDetectors.get(peer.meetingId)?.remove(socketId);
+    this.speakerHistory.set(
+      peer.meetingId,
+      (this.speakerHistory.get(peer.meetingId) || []).filter(id => id !== socketId)
+    );
+    if (this.getRoomPeers(peer.meetingId).length === 0) {
+      this.speakerDetectors.delete(peer.meetingId);
+      this.speakerHistory.delete(peer.meetingId);
+      this.lastN.delete(peer.meetingId);
+    }
+
+    this.removeProducers(peer);
+    this.getRoomPeers(peer.meetingId).forEach(p => this.updateForwarding(p));
+
+    peer.publishTransport?.close();
+    peer.subscribeTransport?.close();
+
+    console.log(`[MEDIA] ${socketId} detached from ${peer.meetingId}`);
+  }
+
+  public async handleOffer(
+    socketId: string,
+    offer: RTCSessionDescriptionInit,
+    screenStreamId?: string
+  ): Promise<RTCSessionDescriptionInit | null> {
+    const peer = this.peers.get(socketId);
+    if (!peer) {
+      console.warn(`[MEDIA] Publish offer from ${socketId} without a meeting`);
+      return null;
+    }
+
+    if (!peer.publishTransport) {
+      peer.publishTransport = this.createTransport(peer, "publish");
+      peer.publishTransport.ontrack = ({ track, transceiver, streams }) => {
+        this.addProducer(peer, track, transceiver, streams[0]?.id);
+      };
+    }
+
+    // Set first: ontrack fires while the offer is applied
+    peer.screenStreamId = screenStreamId;
+
+    // To spot a renegotiation that moves video to another codec
+    const previousCodecs = new Map(
+      Array.from(peer.producers.values()).map(producer => [producer, producer.transceiver.codecs[0]?.mimeType])
+    );
+
+    const transport = peer.publishTransport;
+    await transport.setRemoteDescription(offer);
+
+    // An offer without the screen share means the client stopped sharing
+    peer.producers.forEach(producer => {
+      if (producer.source === "screen" && producer.streamId !== screenStreamId) {
+        this.removeProducer(peer, producer);
+      }
+    });
+
+    const answer = await transport.createAnswer();
+    await transport.setLocalDescription(answer);
+
+    previousCodecs.forEach((mimeType, producer) => {
+      if (producer.kind !== "video" || !peer.producers.has(producer.id)) return;
+      if (producer.transceiver.codecs[0]?.mimeType !== mimeType) {
+        this.switchProducerCodec(peer, producer);
+      }
+    });
+
+    return transport.localDescription!.toSdp();
+  }
+
+  public handleAnswer(socketId: string, answer: RTCSessionDescriptionInit) {
+    const peer = this.peers.get(socketId);
+    if (!peer?.resolveAnswer) {
+      console.warn(`[MEDIA] Unexpected subscribe answer from ${socketId}`);
+      return;
+    }
+
+    const resolve = peer.resolveAnswer;
+    peer.resolveAnswer = undefined;
+    resolve(answer);
+  }
+
+  public async handleIceCandidate(
+    socketId: string,
+    direction: TransportDirection,
+    candidate: RTCIceCandidateInit
+  ) {
+    const peer = this.peers.get(socketId);
+    const transport =
+      direction === "publish" ? peer?.publishTransport : peer?.subscribeTransport;
+
+    if (!transport) {
+      console.warn(`[MEDIA] ICE for missing ${direction} transport of ${socketId}`);
+      return;
+    }
+
+    if (direction === "subscribe" && peer?.earlyCandidates) {
+      peer.earlyCandidates.push(candidate);
+      return;
+    }
+
+    try {
+      await transport.addIceCandidate(candidate);
+    } catch (error) {
+      console.error(`[MEDIA] Failed to add ICE candidate for ${socketId}:`, error);
+    }
+  }
+
+  public setVideoSize(socketId: string, publisherId: string, size: VideoSize) {
+    const peer = this.peers.get(socketId);
+    if (!peer) return;
+
+    peer.videoSizes.set(publisherId, size);
+    this.updateLayers(peer);
+  }
+
+  public setLastN(meetingId: string, lastN: number) {
+    this.lastN.set(meetingId, lastN);
+    this.getRoomPeers(meetingId).forEach(peer => this.updateForwarding(peer));
+  }
+
+  public setPinned(socketId: string, pinned: string[]) {
+    const peer = this.peers.get(socketId);
+    if (!peer) return;
+
+    peer.pinned = new Set(pinned.filter(id => id !== socketId));
+    this.updateForwarding(peer);
+  }
+
+  public setVideoVisibility(socketId: string, hidden: string[], pageHidden: boolean) {
+    const peer = this.peers.get(socketId);
+    if (!peer) return;
+
+    peer.hiddenVideo = new Set(hidden);
+    peer.pageHidden = pageHidden;
+    this.updateForwarding(peer);
+  }
+
+  public restartTransport(socketId: string, direction: TransportDirection) {
+    const peer = this.peers.get(socketId);
+    if (!peer) return;
+
+    console.log(`[MEDIA] Restarting ${direction} transport for ${socketId}`);
+
+    if (direction === "publish") {
+      this.removeProducers(peer);
+      peer.producers.clear();
+      peer.publishTransport?.close();
+      peer.publishTransport = undefined;
+      return;
+    }
+
+    const producerIds = Array.from(peer.consumers.keys());
+    peer.consumers.clear();
+    peer.resolveAnswer = undefined;
+    peer.subscribeTransport?.close();
+    peer.subscribeTransport = undefined;
+
+    producerIds.forEach(producerId => {
+      const producer = this.findProducer(peer.meetingId, producerId);
+      if (producer) this.addConsumer(peer, producer);
+    });
+    if (peer.consumers.size > 0) this.renegotiate(peer);
+  }
+
+  // The client restarts ICE on its publish transport itself; the subscribe
+  // transport is offered by the SFU, so the restart has to come from here
+  public restartSubscribeIce(socketId: string) {
+    const peer = this.peers.get(socketId);
+    if (!peer?.subscribeTransport) return;
+
+    console.log(`[MEDIA] Restarting subscribe ICE for ${socketId}`);
+    peer.iceRestartPending = true;
+    this.renegotiate(peer);
+  }
+
+  public startRecording(recorder: MeetingRecorder) {
+    this.recorders.set(recorder.meetingId, recorder);
+
+    const dominantSpeaker = this.speakerDetectors.get(recorder.meetingId)?.dominantSpeaker;
+    if (dominantSpeaker) recorder.noteActiveSpeaker(dominantSpeaker);
+
+    this.getRoomPeers(recorder.meetingId).forEach(peer => {
+      peer.producers.forEach(producer => this.recordProducer(recorder, producer));
+    });
+  }
+
+  // Detaches the meeting's recorder; the caller finalizes it
+  public stopRecording(meetingId: string): MeetingRecorder | undefined {
+    const recorder = this.recorders.get(meetingId);
+    this.recorders.delete(meetingId);
+    return recorder;
+  }
+
+  private addProducer(
+    peer: MediaPeer,
+    track: MediaStreamTrack,
+    transceiver: RTCRtpTransceiver,
+    streamId?: string
+  ) {
+    const producer: Producer = {
+      id: track.uuid,
+      socketId: peer.socketId,
+      kind: track.kind,
+      source: streamId && streamId === peer.screenStreamId ? "screen" : "camera",
+      streamId,
+      track,
+      transceiver,
+      layers: new Map(),
+      layerActivity: new Map(),
+    };
+
+    // werift registers one receiver track per rid before firing ontrack
+    Object.values(transceiver.receiver.trackByRID).forEach(layer => {
+      producer.layers.set(layer.rid!, layer);
+      layer.onReceiveRtp.subscribe(() => {
+        producer.layerActivity.set(layer.rid!, Date.now());
+      });
+    });
+
+    // A video playing in a shared tab shouldn't make its presenter the speaker
+    if (track.kind === "audio" && producer.source === "camera") {
+      this.trackAudioLevel(peer, track);
+    }
+
+    peer.producers.set(producer.id, producer);
+
+    const recorder = this.recorders.get(peer.meetingId);
+    if (recorder) this.recordProducer(recorder, producer);
+
+    console.log(
+      `[MEDIA] ${peer.socketId} publishing ${producer.source} ${track.kind} track ${producer.id}` +
+        (producer.layers.size ? ` (simulcast: ${Array.from(producer.layers.keys()).join(",")})` : "")
+    );
+
+    this.getRoomPeers(peer.meetingId)
+      .filter(p => p.socketId !== peer.socketId)
+      .forEach(subscriber => {
+        this.addConsumer(subscriber, producer);
+        this.renegotiate(subscriber);
+      });
+  }
+
+  private removeProducers(peer: MediaPeer) {
+    const recorder = this.recorders.get(peer.meetingId);
+
+    this.getRoomPeers(peer.meetingId).forEach(other => {
+      let removed = false;
+      peer.producers.forEach(producer => {
+        removed = this.removeConsumer(other, producer.id) || removed;
+      });
+      if (removed) this.renegotiate(other);
+    });
+
+    peer.producers.forEach(producer => recorder?.removeTrack(producer.id));
+  }
+
+  private removeProducer(peer: MediaPeer, producer: Producer) {
+    peer.producers.delete(producer.id);
+    this.recorders.get(peer.meetingId)?.removeTrack(producer.id);
+
+    this.getRoomPeers(peer.meetingId).forEach(other => {
+      if (this.removeConsumer(other, producer.id)) this.renegotiate(other);
+    });
+
+    console.log(`[MEDIA] ${peer.socketId} stopped publishing ${producer.source} ${producer.kind} track ${producer.id}`);
+  }
+
+  // Consumers are set up for the codec their producer had, and the SFU never
+  // transcodes, so every subscriber gets a new consumer in the new codec
+  private switchProducerCodec(peer: MediaPeer, producer: Producer) {
+    console.log(
+      `[MEDIA] ${peer.socketId} switched ${producer.source} video ${producer.id} to ${producer.transceiver.codecs[0]?.mimeType}`
+    );
+
+    this.getRoomPeers(peer.meetingId)
+      .filter(subscriber => subscriber.socketId !== peer.socketId)
+      .forEach(subscriber => {
+        this.removeConsumer(subscriber, producer.id);
+        this.addConsumer(subscriber, producer);
+        this.renegotiate(subscriber);
+      });
+
+    // The WebM file was started with the old codec; a new one takes over
+    const recorder = this.recorders.get(peer.meetingId);
+    if (recorder) {
+      recorder.removeTrack(producer.id);
+      this.recordProducer(recorder, producer);
+    }
+  }
+
+  private recordProducer(recorder: MeetingRecorder, producer: Producer) {
+    const layer = [...SIMULCAST_LAYERS].reverse().find(l => producer.layers.has(l.rid));
+    const track = layer ? producer.layers.get(layer.rid)! : producer.track;
+    const size = layer && {
+      width: Math.round((layer.height * 16) / 9),
+      height: layer.height,
+    };
+
+    recorder.addTrack(producer.id, producer.socketId, producer.source, track, size);
+    this.requestKeyFrame(producer, layer?.rid);
+  }
+
+  private trackAudioLevel(peer: MediaPeer, track: MediaStreamTrack) {
+    track.onReceiveRtp.subscribe((rtp, extensions) => {
+      const audioLevel = extensions?.[RTP_EXTENSION_URI.audioLevelIndication];
+      if (!audioLevel || this.peers.get(peer.socketId) !== peer) return;
+
+      let detector = this.speakerDetectors.get(peer.meetingId);
+      if (!detector) {
+        detector = new ActiveSpeakerDetector();
+        this.speakerDetectors.set(peer.meetingId, detector);
+      }
+      detector.addSample(peer.socketId, audioLevel.level);
+    });
+  }
+
+  private broadcastAudioLevels() {
+    this.speakerDetectors.forEach((detector, meetingId) => {
+      const { levels, dominantSpeaker } = detector.tick();
+
+      if (Object.values(levels).some(level => level > 0)) {
+        this.emit(meetingId, "audio-levels", { levels });
+      }
+
+      if (dominantSpeaker) {
+        console.log(`[MEDIA] Active speaker in ${meetingId}: ${dominantSpeaker}`);
+        this.emit(meetingId, "active-speaker-changed", { socketId: dominantSpeaker });
+        this.recorders.get(meetingId)?.noteActiveSpeaker(dominantSpeaker);
+
+        const history = this.speakerHistory.get(meetingId) || [];
+        this.speakerHistory.set(meetingId, [
+          dominantSpeaker,
+          ...history.filter(id => id !== dominantSpeaker),
+        ]);
+        this.getRoomPeers(meetingId).forEach(peer => this.updateForwarding(peer));
+      }
+    });
+  }
+
+  private addConsumer(subscriber: MediaPeer, producer: Producer) {
+    if (!subscriber.subscribeTransport) {
+      subscriber.subscribeTransport = this.createTransport(subscriber, "subscribe");
+    }
+
+    // Video starts paused; updateForwarding attaches it if it is in last-N
+    const transceiver = subscriber.subscribeTransport.addTransceiver(
+      producer.kind === "video" ? producer.kind : producer.track,
+      {
+        direction: "sendonly",
+        streams: [new MediaStream({ id: toStreamId(producer.socketId, producer.source) })],
+      }
+    );
+
+    if (producer.kind === "video") {
+      const [codec] = producer.transceiver.codecs;
+      transceiver.codecs = subscriber.subscribeTransport
+        .getConfiguration()
+        .codecs.video!.filter(c => codec && c.mimeType.toLowerCase() === codec.mimeType.toLowerCase());
+    }
+
+    const consumer: Consumer = {
+      producerId: producer.id,
+      transceiver,
+      paused: producer.kind === "video",
+      trackSwitch: Promise.resolve(),
+    };
+    subscriber.consumers.set(producer.id, consumer);
+
+    transceiver.sender.onReady.subscribe(() => this.requestKeyFrame(producer, consumer.layer));
+    transceiver.sender.onPictureLossIndication.subscribe(() => {
+      if (!consumer.paused) this.requestKeyFrame(producer, consumer.layer);
+    });
+
+    if (producer.kind === "video") {
+      this.updateForwarding(subscriber);
+    }
+  }
+
+  // Publishers whose video this subscriber should receive
+  private getForwardedPublishers(subscriber: MediaPeer): Set<string> {
+    const lastN = this.lastN.get(subscriber.meetingId) ?? Infinity;
+    const recent = (this.speakerHistory.get(subscriber.meetingId) || [])
+      .filter(id => id !== subscriber.socketId)
+      .slice(0, lastN);
+
+    return new Set([...recent, ...subscriber.pinned]);
+  }
+
+  private updateForwarding(subscriber: MediaPeer) {
+    const forwarded = this.getForwardedPublishers(subscriber);
+
+    subscriber.consumers.forEach(consumer => {
+      const producer = this.findProducer(subscriber.meetingId, consumer.producerId);
+      if (!producer || producer.kind !== "video") return;
+
+      const forward =
+        producer.source === "screen"
+          ? !subscriber.pageHidden
+          : forwarded.has(producer.socketId) &&
+            !subscriber.pageHidden &&
+            !subscriber.hiddenVideo.has(producer.socketId);
+      if (forward === !consumer.paused) return;
+
+      consumer.paused = !forward;
+      if (!forward) {
+        consumer.layer = undefined;
+        this.switchTrack(consumer, null);
+      } else if (producer.layers.size) {
+        this.setConsumerLayer(consumer, producer, this.selectLayer(subscriber, producer));
+      } else {
+        this.requestKeyFrame(producer);
+        this.switchTrack(consumer, producer.track);
+      }
+    });
+
+    // Tell the client which tiles have video so the rest show an avatar;
+    // visibility pauses are left out since the client requested those
+    const socketIds = Array.from(forwarded).filter(id =>
+      this.peers.get(id)?.meetingId === subscriber.meetingId
+    );
+    if (socketIds.sort().join() !== subscriber.forwardedVideo?.join()) {
+      subscriber.forwardedVideo = socketIds;
+      this.emit(subscriber.socketId, "forwarded-video", { socketIds });
+    }
+  }
+
+  private updateLayers(subscriber: MediaPeer) {
+    const simulcast = Array.from(subscriber.consumers.values())
+      .filter(consumer => !consumer.paused)
+      .map(consumer => ({
+        consumer,
+        producer: this.findProducer(subscriber.meetingId, consumer.producerId),
+      }))
+      .filter(({ producer }) => producer?.layers.size);
+    if (simulcast.length === 0) return;
+
+    const targets = simulcast.map(({ consumer, producer }) => ({
+      consumer,
+      producer: producer!,
+      layer: this.selectLayer(subscriber, producer!),
+    }));
+
+    // Step the largest streams down until the total fits the downlink estimate
+    const budget = this.getDownlinkEstimate(subscriber);
+    if (budget > 0) {
+      const bitrateOf = (rid: string) => SIMULCAST_LAYERS.find(l => l.rid === rid)!.bitrate;
+      let total = targets.reduce((sum, t) => sum + bitrateOf(t.layer), 0);
+
+      while (total > budget) {
+        const largest = targets
+          .filter(t => t.layer !== SIMULCAST_LAYERS[0].rid)
+          .sort((a, b) => bitrateOf(b.layer) - bitrateOf(a.layer))[0];
+        if (!largest) break;
+
+        const lower = this.getActiveLayers(largest.producer)
+          .filter(l => l.bitrate < bitrateOf(largest.layer))
+          .pop();
+        const next = lower?.rid ?? SIMULCAST_LAYERS[0].rid;
+        total -= bitrateOf(largest.layer) - bitrateOf(next);
+        largest.layer = next;
+      }
+    }
+
+    targets.forEach(({ consumer, producer, layer }) => {
+      this.setConsumerLayer(consumer, producer, layer);
+    });
+  }
+
+  // Smallest active layer that covers the reported tile height
+  private selectLayer(subscriber: MediaPeer, producer: Producer): string {
+    const active = this.getActiveLayers(producer);
+    if (active.length === 0) return SIMULCAST_LAYERS[0].rid;
+
+    const size = subscriber.videoSizes.get(producer.socketId);
+    if (!size) return active[active.length - 1].rid;
+    if (size.height <= 0) return active[0].rid;
+
+    const fit = active.find(layer => layer.height >= size.height);
+    return (fit ?? active[active.length - 1]).rid;
+  }
+
+  private getActiveLayers(producer: Producer) {
+    const now = Date.now();
+    return SIMULCAST_LAYERS.filter(layer => {
+      const lastPacket = producer.layerActivity.get(layer.rid);
+      return producer.layers.has(layer.rid) && lastPacket && now - lastPacket < LAYER_INACTIVE_MS;
+    });
+  }
+
+  // REMB from the subscriber's browser, in bps (0 when unknown)
+  private getDownlinkEstimate(subscriber: MediaPeer) {
+    return Array.from(subscriber.consumers.values()).reduce(
+      (max, consumer) => Math.max(max, Number(consumer.transceiver.sender.receiverEstimatedMaxBitrate)),
+      0
+    );
+  }
+
+  private setConsumerLayer(consumer: Consumer, producer: Producer, rid: string) {
+    const track = producer.layers.get(rid);
+    if (!track || consumer.layer === rid) return;
+
+    console.log(`[MEDIA] Forwarding layer ${rid} of ${producer.socketId} (was ${consumer.layer ?? "none"})`);
+    consumer.layer = rid;
+    this.requestKeyFrame(producer, rid);
+    this.switchTrack(consumer, track);
+  }
+
+  private switchTrack(consumer: Consumer, track: MediaStreamTrack | null) {
+    consumer.trackSwitch = consumer.trackSwitch
+      .then(() => consumer.transceiver.sender.replaceTrack(track))
+      .catch(error => {
+        console.error(`[MEDIA] Switching track of consumer ${consumer.producerId} failed:`, error);
+      });
+  }
+
+  private removeConsumer(subscriber: MediaPeer, producerId: string): boolean {
+    const consumer = subscriber.consumers.get(producerId);
+    if (!consumer || !subscriber.subscribeTransport) return false;
+
+    subscriber.consumers.delete(producerId);
+    subscriber.subscribeTransport.removeTrack(consumer.transceiver.sender);
+    return true;
+  }
+
+  private requestKeyFrame(producer: Producer, rid?: string) {
+    const track = (rid && producer.layers.get(rid)) || producer.track;
+    if (producer.kind !== "video" || track.ssrc === undefined) return;
+
+    producer.transceiver.receiver
+      .sendRtcpPLI(track.ssrc)
+      .catch(error => console.error(`[MEDIA] PLI to ${producer.socketId} failed:`, error));
+  }
+
+  private renegotiate(peer: MediaPeer) {
+    if (peer.negotiationQueued) return;
+    peer.negotiationQueued = true;
+
+    peer.negotiation = peer.negotiation
+      .then(() => {
+        peer.negotiationQueued = false;
+        return this.negotiateSubscribe(peer);
+      })
+      .catch(error => {
+        console.error(`[MEDIA] Subscribe negotiation failed for ${peer.socketId}:`, error);
+      });
+  }
+
+  private async negotiateSubscribe(peer: MediaPeer) {
+    const transport = peer.subscribeTransport;
+    if (!transport || this.peers.get(peer.socketId) !== peer) return;
+
+    peer.heldCandidates = [];
+    try {
+      const offer = await transport.createOffer({ iceRestart: peer.iceRestartPending });
+      peer.iceRestartPending = false;
+      await transport.setLocalDescription(offer);
+    } catch (error) {
+      this.flushHeldCandidates(peer);
+      throw error;
+    }
+
+    const answer = new Promise<RTCSessionDescriptionInit>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        peer.resolveAnswer = undefined;
+        reject(new Error("Timed out waiting for subscribe answer"));
+      }, ANSWER_TIMEOUT_MS);
+
+      peer.resolveAnswer = a => {
+        clearTimeout(timeout);
+        resolve(a);
+      };
+    });
+
+    console.log(`[MEDIA] Sending subscribe offer to ${peer.socketId} (${peer.consumers.size} tracks)`);
+    this.emit(peer.socketId, "offer", {
+      transport: "subscribe",
+      offer: transport.localDescription!.toSdp() as SessionDescription,
+    });
+    this.flushHeldCandidates(peer);
+
+    peer.earlyCandidates = [];
+    try {
+      await transport.setRemoteDescription(await answer);
+    } finally {
+      const candidates = peer.earlyCandidates;
+      peer.earlyCandidates = undefined;
+      for (const candidate of candidates) {
+        await this.handleIceCandidate(peer.socketId, "subscribe", candidate);
+      }
+    }
+  }
+
+  private createTransport(peer: MediaPeer, direction: TransportDirection) {
+    const transport = new RTCPeerConnection({
+      codecs: {
+        audio: [useOPUS()],
+        // Browsers signal AV1 as video/AV1 rather than werift's AV1X
+        video: [useVP8(), useVP9(), useH264(), useAV1X({ mimeType: "video/AV1" })],
+      },
+      headerExtensions: {
+        audio: [useSdesMid(), useAudioLevelIndication()],
+        video: [useSdesMid(), useSdesRTPStreamId(), useRepairedRtpStreamId(), useAbsSendTime()],
+      },
+      iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
+      icePortRange: this.getPortRange(),
+    });
+
+    transport.onIceCandidate.subscribe(candidate => {
+      if (!candidate) return;
+      if (direction === "subscribe" && peer.heldCandidates) {
+        peer.heldCandidates.push(candidate.toJSON());
+        return;
+      }
+
+      this.emit(peer.socketId, "ice-candidate", {
+        transport: direction,
+        candidate: candidate.toJSON(),
+      });
+    });
+
+    transport.connectionStateChange.subscribe(state => {
+      console.log(`[MEDIA] ${direction} transport of ${peer.socketId}: ${state}`);
+      peer.transportStates[direction] = state;
+      this.updateReconnecting(peer);
+    });
+
+    return transport;
+  }
+
+  private flushHeldCandidates(peer: MediaPeer) {
+    const candidates = peer.heldCandidates || [];
+    peer.heldCandidates = undefined;
+
+    candidates.forEach(candidate => {
+      this.emit(peer.socketId, "ice-candidate", { transport: "subscribe", candidate });
+    });
+  }
+
+  private updateReconnecting(peer: MediaPeer) {
+    if (this.peers.get(peer.socketId) !== peer) return;
+
+    const interrupted = Object.values(peer.transportStates).some(
+      state => state === "disconnected" || state === "failed"
+    );
+
+    if (interrupted && !peer.reconnectTimer) {
+      console.log(`[MEDIA] ${peer.socketId} reconnecting, ${RECONNECT_GRACE_MS}ms grace period`);
+      peer.reconnectTimer = setTimeout(() => {
+        console.warn(`[MEDIA] ${peer.socketId} did not reconnect in time`);
+        this.onPeerLost(peer.socketId);
+      }, RECONNECT_GRACE_MS);
+      this.emit(peer.meetingId, "participant-connection", {
+        socketId: peer.socketId,
+        state: "reconnecting",
+      });
+    } else if (!interrupted && peer.reconnectTimer) {
+      console.log(`[MEDIA] ${peer.socketId} reconnected`);
+      clearTimeout(peer.reconnectTimer);
+      peer.reconnectTimer = undefined;
+      this.emit(peer.meetingId, "participant-connection", {
+        socketId: peer.socketId,
+        state: "connected",
+      });
+    }
+  }
+
+  private getPortRange(): [number, number] | undefined {
+    const min = Number(process.env.RTC_MIN_PORT);
+    const max = Number(process.env.RTC_MAX_PORT);
+    return min && max ? [min, max] : undefined;
+  }
+
+  private findProducer(meetingId: string, producerId: string) {
+    for (const peer of this.getRoomPeers(meetingId)) {
+      const producer = peer.producers.get(producerId);
+      if (producer) return producer;
+    }
+    return undefined;
+  }
+
+  private getRoomPeers(meetingId: string) {
+    return Array.from(this.peers.values()).filter(p => p.meetingId === meetingId);
+  }
+}
@@ -0,0 +1,139 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { MediaStreamTrack } from "werift";
+import { MediaRecorder } from "werift/nonstandard";
+import { TrackSource } from "../../../shared/signaling";
+
+export interface RecordedTrackInfo {
+  file: string;
+  kind: "audio" | "video";
+  source: TrackSource;
+  socketId: string;
+  userId?: string;
+  // Milliseconds from the start of the recording
+  startOffset: number;
+  endOffset?: number;
+}
+
+export interface SpeakerChange {
+  socketId: string;
+  offset: number;
+}
+
+export interface RecordingManifest {
+  recordingId: string;
+  meetingId: string;
+  startedAt: string;
+  stoppedAt?: string;
+  tracks: RecordedTrackInfo[];
+  // Dominant speaker changes, used for the speaker layout of the composite
+  speakers: SpeakerChange[];
+}
+
+interface ActiveTrack {
+  info: RecordedTrackInfo;
+  recorder: MediaRecorder;
+}
+
+/**
+ * Writes each track of one meeting recording to its own WebM file and keeps
+ * a manifest of when every track started and ended relative to the start of
+ * the recording, so the files can be lined up afterwards.
+ */
+export class MeetingRecorder {
+  public readonly startedAt = new Date();
+  private tracks: Map<string, ActiveTrack> = new Map();
+  private finished: RecordedTrackInfo[] = [];
+  private speakers: SpeakerChange[] = [];
+
+  constructor(
+    public readonly meetingId: string,
+    public readonly recordingId: string,
+    public readonly directory: string,
+    private resolveUserId: (socketId: string) => string | undefined
+  ) {}
+
+  public async start() {
+    await mkdir(this.directory, { recursive: true });
+    console.log(`[REC] Recording ${this.recordingId} started in ${this.directory}`);
+  }
+
+  public addTrack(
+    trackId: string,
+    socketId: string,
+    source: TrackSource,
+    track: MediaStreamTrack,
+    size?: { width: number; height: number }
+  ) {
+    if (this.tracks.has(trackId)) return;
+
+    // A track recorded again (after a codec switch) continues in a new file
+    const name = `${socketId}-${track.kind}-${trackId}`;
+    const parts = this.finished.filter(info => info.file.startsWith(name)).length;
+    const file = parts ? `${name}-${parts + 1}.webm` : `${name}.webm`;
+    const recorder = new MediaRecorder({
+      path: path.join(this.directory, file),
+      tracks: [track],
+      width: size?.width,
+      height: size?.height,
+      // Single-track files are synced through the manifest offsets instead
+      disableLipSync: true,
+    });
+
+    recorder.onError.subscribe(error => {
+      console.error(`[REC] Writing ${file} failed:`, error);
+    });
+
+    this.tracks.set(trackId, {
+      recorder,
+      info: {
+        file,
+        kind: track.kind as "audio" | "video",
+        source,
+        socketId,
+        userId: this.resolveUserId(socketId),
+        startOffset: Date.now() - this.startedAt.getTime(),
+      },
+    });
+
+    console.log(`[REC] ${this.recordingId}: recording ${source} ${track.kind} of ${socketId}`);
+  }
+
+  public noteActiveSpeaker(socketId: string) {
+    this.speakers.push({ socketId, offset: Date.now() - this.startedAt.getTime() });
+  }
+
+  public async removeTrack(trackId: string) {
+    const active = this.tracks.get(trackId);
+    if (!active) return;
+
+    this.tracks.delete(trackId);
+    active.info.endOffset = Date.now() - this.startedAt.getTime();
+    this.finished.push(active.info);
+
+    await active.recorder
+      .stop()
+      .catch(error => console.error(`[REC] Closing ${active.info.file} failed:`, error));
+  }
+
+  public async stop(): Promise<RecordingManifest> {
+    await Promise.all(Array.from(this.tracks.keys()).map(trackId => this.removeTrack(trackId)));
+
+    const manifest: RecordingManifest = {
+      recordingId: this.recordingId,
+      meetingId: this.meetingId,
+      startedAt: this.startedAt.toISOString(),
+      stoppedAt: new Date().toISOString(),
+      tracks: [...this.finished].sort((a, b) => a.startOffset - b.startOffset),
+      speakers: this.speakers,
+    };
+
+    await writeFile(
+      path.join(this.directory, "manifest.json"),
+      JSON.stringify(manifest, null, 2)
+    );
+
+    console.log(`[REC] Recording ${this.recordingId} stopped with ${manifest.tracks.length} tracks`);
+    return manifest;
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import type { RecordedTrackInfo, RecordingManifest } from "./MeetingRecorder";
+import { buildCompositeArgs, getSpeakerIntervals } from "./RecordingCompositor";
+
+const track = (
+  socketId: string,
+  userId: string,
+  kind: RecordedTrackInfo["kind"],
+  source: RecordedTrackInfo["source"] = "camera",
+  startOffset = 0,
+  endOffset?: number
+): RecordedTrackInfo => ({
+  file: `${socketId}-${source}-${kind}.webm`,
+  kind,
+  source,
+  socketId,
+  userId,
+  startOffset,
+  endOffset,
+});
+
+const manifest = (tracks: RecordedTrackInfo[], speakers: RecordingManifest["speakers"] = []): RecordingManifest => ({
+  recordingId: "recording-1",
+  meetingId: "meeting-1",
+  startedAt: "2024-01-01T00:00:00.000Z",
+  stoppedAt: "2024-01-01T00:00:10.000Z",
+  tracks,
+  speakers,
+});
+
+const compose = (recording: RecordingManifest, layout: "grid" | "speaker" = "grid") =>
+  buildCompositeArgs({
+    manifest: recording,
+    layout,
+    directory: "/recordings/recording-1",
+    outputPath: "/recordings/recording-1/composite.mp4",
+    labelFiles: new Map(),
+  });
+
+const filterGraph = (args: string[]) => args[args.indexOf("-filter_complex") + 1];
+const inputFiles = (args: string[]) => args.filter((_, i) => args[i - 1] === "-i");
+
+describe("getSpeakerIntervals", () => {
+  it("features the first participant until someone speaks", () => {
+    const recording = manifest(
+      [track("s1", "u1", "video"), track("s2", "u2", "video")],
+      [{ socketId: "s2", offset: 4000 }]
+    );
+
+    expect(getSpeakerIntervals(recording, ["u1", "u2"])).toEqual(
+      new Map([
+        ["u1", [[0, 4000]]],
+        ["u2", [[4000, 10000]]],
+      ])
+    );
+  });
+
+  it("keeps the previous speaker for participants without video", () => {
+    const recording = manifest(
+      [track("s1", "u1", "video"), track("s2", "u2", "video"), track("s3", "u3", "audio")],
+      [
+        { socketId: "s2", offset: 2000 },
+        { socketId: "s3", offset: 5000 },
+        { socketId: "unknown", offset: 6000 },
+      ]
+    );
+
+    expect(getSpeakerIntervals(recording, ["u1", "u2"])).toEqual(
+      new Map([
+        ["u1", [[0, 2000]]],
+        ["u2", [[2000, 10000]]],
+      ])
+    );
+  });
+
+  it("groups the sockets of a rejoined user", () => {
+    const recording = manifest(
+      [
+        track("s1", "u1", "video", "camera", 0, 3000),
+        track("s2", "u2", "video"),
+        track("s1b", "u1", "video", "camera", 5000),
+      ],
+      [
+        { socketId: "s2", offset: 1000 },
+        { socketId: "s1b", offset: 7000 },
+      ]
+    );
+
+    expect(getSpeakerIntervals(recording, ["u1", "u2"])).toEqual(
+      new Map([
+        ["u1", [[0, 1000], [7000, 10000]]],
+        ["u2", [[1000, 7000]]],
+      ])
+    );
+  });
+
+  it("returns no intervals without participants", () => {
+    expect(getSpeakerIntervals(manifest([track("s1", "u1", "audio")]), [])).toEqual(new Map());
+  });
+});
+
+describe("buildCompositeArgs", () => {
+  it("rejects a recording without tracks", () => {
+    expect(() => compose(manifest([]))).toThrow("Recording has no tracks");
+  });
+
+  it("orders inputs as cameras, screens, then audio", () => {
+    const args = compose(
+      manifest([
+        track("s1", "u1", "audio"),
+        track("s2", "u2", "video", "screen", 2000, 5000),
+        track("s1", "u1", "video"),
+      ])
+    );
+
+    expect(inputFiles(args)).toEqual([
+      "/recordings/recording-1/s1-camera-video.webm",
+      "/recordings/recording-1/s2-screen-video.webm",
+      "/recordings/recording-1/s1-camera-audio.webm",
+    ]);
+    expect(args[args.length - 1]).toBe("/recordings/recording-1/composite.mp4");
+    expect(args[args.indexOf("-t") + 1]).toBe("10.000");
+  });
+
+  it("lays cameras out in a grid with one cell per participant", () => {
+    const graph = filterGraph(
+      compose(manifest([track("s1", "u1", "video"), track("s2", "u2", "video", "camera", 1500)]))
+    );
+
+    expect(graph).toContain("[0:v]setpts=PTS-STARTPTS,scale=640:720");
+    expect(graph).toContain("overlay=x=0:y=0:eof_action=pass");
+    expect(graph).toContain("setpts=PTS+1.500/TB");
+    expect(graph).toContain("overlay=x=640:y=0:eof_action=pass");
+    expect(graph).not.toContain("[screen");
+  });
+
+  it("shrinks the grid to thumbnails while a screen is shared", () => {
+    const graph = filterGraph(
+      compose(
+        manifest([
+          track("s1", "u1", "video"),
+          track("s2", "u2", "video"),
+          track("s2", "u2", "video", "screen", 2000, 5000),
+        ])
+      )
+    );
+
+    expect(graph).toContain("[2:v]setpts=PTS-STARTPTS,scale=1280:578");
+    expect(graph).toContain("[0:v]split=2[grid0][small0]");
+    expect(graph).toContain("enable='between(t,2.000,5.000)'");
+  });
+
+  it("shows the dominant speaker full frame in the speaker layout", () => {
+    const graph = filterGraph(
+      compose(
+        manifest([track("s1", "u1", "video"), track("s2", "u2", "video")], [{ socketId: "s2", offset: 4000 }]),
+        "speaker"
+      )
+    );
+
+    expect(graph).toContain("[0:v]split=2[big0][small0]");
+    expect(graph).toContain("enable='between(t,0.000,4.000)'");
+    expect(graph).toContain("enable='between(t,4.000,10.000)'");
+  });
+
+  it("mixes audio tracks at their start offsets", () => {
+    const args = compose(
+      manifest([track("s1", "u1", "audio"), track("s2", "u2", "audio", "camera", 2500)])
+    );
+    const graph = filterGraph(args);
+
+    expect(graph).toContain("[0:a]aresample=48000,asetpts=PTS-STARTPTS,adelay=0|0[a0]");
+    expect(graph).toContain("[1:a]aresample=48000,asetpts=PTS-STARTPTS,adelay=2500|2500[a1]");
+    expect(graph).toContain("[a0][a1]amix=inputs=2");
+    expect(args).toContain("[aout]");
+  });
+
+  it("maps no audio for a recording without audio tracks", () => {
+    const args = compose(manifest([track("s1", "u1", "video")]));
+
+    expect(args).not.toContain("[aout]");
+    expect(args).not.toContain("-c:a");
+  });
+});
@@ -0,0 +1,262 @@
+import path from "path";
+import { RecordingManifest, RecordedTrackInfo } from "./MeetingRecorder";
+import { RecordingLayout } from "../models/Recording";
+
+const OUTPUT_WIDTH = 1280;
+const OUTPUT_HEIGHT = 720;
+const OUTPUT_FPS = 30;
+
+// Speaker layout and screen shares: thumbnail strip along the bottom edge
+const THUMB_WIDTH = 224;
+const THUMB_HEIGHT = 126;
+const THUMB_GAP = 8;
+
+export interface CompositeOptions {
+  manifest: RecordingManifest;
+  layout: RecordingLayout;
+  directory: string;
+  outputPath: string;
+  // Label text files keyed by participant (see participantKey)
+  labelFiles: Map<string, string>;
+  fontFile?: string;
+}
+
+interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rejoins get a new socket id, so tracks are grouped by user where known
+export const participantKey = (track: Pick<RecordedTrackInfo, "userId" | "socketId">) =>
+  track.userId || track.socketId;
+
+export const getRecordingDuration = (manifest: RecordingManifest) =>
+  manifest.stoppedAt
+    ? new Date(manifest.stoppedAt).getTime() - new Date(manifest.startedAt).getTime()
+    : Math.max(0, ...manifest.tracks.map(t => t.endOffset ?? t.startOffset));
+
+// Escapes a value for use inside a quoted filter option
+const escapeFilterValue = (value: string) => value.replace(/\\/g, "\\\\").replace(/'/g, "'\\''");
+
+const even = (value: number) => Math.floor(value / 2) * 2;
+
+// ffmpeg timeline expression for a millisecond interval
+const between = (from: number, to: number) =>
+  `between(t,${(from / 1000).toFixed(3)},${(to / 1000).toFixed(3)})`;
+
+/**
+ * Builds the ffmpeg arguments that mix one recording's per-track WebM files
+ * into a single MP4. Every track is shifted by its manifest start offset;
+ * camera tracks are laid out in a grid (one cell per participant) or with the
+ * dominant speaker full frame above a thumbnail strip, and all audio tracks
+ * are mixed. While a screen is shared it takes the frame above a strip of
+ * camera thumbnails, whichever the layout.
+ */
+export const buildCompositeArgs = (options: CompositeOptions): string[] => {
+  const { manifest, layout, directory, outputPath, labelFiles, fontFile } = options;
+  const duration = getRecordingDuration(manifest);
+  const durationSec = (duration / 1000).toFixed(3);
+
+  // Manifests from before sources were noted hold camera tracks only
+  const cameraTracks = manifest.tracks.filter(t => t.kind === "video" && t.source !== "screen");
+  const screenTracks = manifest.tracks.filter(t => t.kind === "video" && t.source === "screen");
+  const videoTracks = [...cameraTracks, ...screenTracks];
+  const audioTracks = manifest.tracks.filter(t => t.kind === "audio");
+  if (videoTracks.length === 0 && audioTracks.length === 0) {
+    throw new Error("Recording has no tracks");
+  }
+
+  const inputs = [...videoTracks, ...audioTracks];
+  const participants = Array.from(new Set(cameraTracks.map(participantKey)));
+  const filters: string[] = [
+    `color=c=black:s=${OUTPUT_WIDTH}x${OUTPUT_HEIGHT}:r=${OUTPUT_FPS}:d=${durationSec}[base]`,
+  ];
+
+  const label = (track: RecordedTrackInfo, fontSize: number) => {
+    const textFile = labelFiles.get(participantKey(track));
+    if (!textFile) return "";
+
+    const font = fontFile ? `:fontfile='${escapeFilterValue(fontFile)}'` : "";
+    return (
+      `,drawtext=textfile='${escapeFilterValue(textFile)}'${font}` +
+      `:fontsize=${fontSize}:fontcolor=white:box=1:boxcolor=black@0.5:boxborderw=6` +
+      `:x=10:y=h-th-10`
+    );
+  };
+
+  const scaleTo = (input: string, tile: Tile) =>
+    `${input}setpts=PTS-STARTPTS,scale=${tile.width}:${tile.height}:force_original_aspect_ratio=decrease,` +
+    `pad=${tile.width}:${tile.height}:(ow-iw)/2:(oh-ih)/2`;
+
+  // Overlays are chained onto the black canvas; a track that ends drops out
+  let canvas = "[base]";
+  const overlay = (source: string, tile: Tile, track: RecordedTrackInfo, enable?: string) => {
+    const output = `[o${filters.length}]`;
+    const start = (track.startOffset / 1000).toFixed(3);
+    filters.push(
+      `${source}setpts=PTS+${start}/TB[s${filters.length}]`,
+      `${canvas}[s${filters.length}]overlay=x=${tile.x}:y=${tile.y}:eof_action=pass` +
+        (enable ? `:enable='${enable}'` : "") +
+        output
+    );
+    canvas = output;
+  };
+
+  const fullFrame = { x: 0, y: 0, width: OUTPUT_WIDTH, height: OUTPUT_HEIGHT };
+  const stripWidth = participants.length * (THUMB_WIDTH + THUMB_GAP) - THUMB_GAP;
+  const thumbnails = (input: (i: number) => string, enable?: string) => {
+    cameraTracks.forEach((track, i) => {
+      const slot = participants.indexOf(participantKey(track));
+      const thumb = {
+        x: Math.round((OUTPUT_WIDTH - stripWidth) / 2) + slot * (THUMB_WIDTH + THUMB_GAP),
+        y: OUTPUT_HEIGHT - THUMB_HEIGHT - THUMB_GAP,
+        width: THUMB_WIDTH,
+        height: THUMB_HEIGHT,
+      };
+
+      filters.push(`${scaleTo(input(i), thumb)}${label(track, 16)}[thumb${i}]`);
+      overlay(`[thumb${i}]`, thumb, track, enable);
+    });
+  };
+
+  // Shared screens are fitted above the thumbnail strip, on black that hides
+  // the camera layout beneath
+  const stageHeight =
+    participants.length > 0 ? even(OUTPUT_HEIGHT - THUMB_HEIGHT - 2 * THUMB_GAP) : OUTPUT_HEIGHT;
+  const screens = () => {
+    screenTracks.forEach((track, j) => {
+      filters.push(
+        `[${cameraTracks.length + j}:v]setpts=PTS-STARTPTS,` +
+          `scale=${OUTPUT_WIDTH}:${stageHeight}:force_original_aspect_ratio=decrease,` +
+          `pad=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}:(ow-iw)/2:(${stageHeight}-ih)/2[screen${j}]`
+      );
+      overlay(`[screen${j}]`, fullFrame, track);
+    });
+  };
+
+  if (layout === "speaker") {
+    const intervals = getSpeakerIntervals(manifest, participants);
+
+    // Full-frame speakers first so screens and the thumbnail strip stay on top
+    cameraTracks.forEach((track, i) => {
+      const enable = (intervals.get(participantKey(track)) || [])
+        .map(([from, to]) => between(from, to))
+        .join("+");
+
+      filters.push(`[${i}:v]split=2[big${i}][small${i}]`);
+      if (enable) {
+        filters.push(`${scaleTo(`[big${i}]`, fullFrame)}${label(track, 28)}[bigs${i}]`);
+        overlay(`[bigs${i}]`, fullFrame, track, enable);
+      } else {
+        filters.push(`[big${i}]nullsink`);
+      }
+    });
+
+    screens();
+    thumbnails(i => `[small${i}]`);
+  } else {
+    const cols = Math.ceil(Math.sqrt(participants.length));
+    const rows = Math.ceil(participants.length / cols);
+    const width = even(OUTPUT_WIDTH / cols);
+    const height = even(OUTPUT_HEIGHT / rows);
+    // The grid gives way to a thumbnail strip while a screen is shared
+    const presenting = screenTracks
+      .map(track => between(track.startOffset, track.endOffset ?? duration))
+      .join("+");
+
+    cameraTracks.forEach((track, i) => {
+      const slot = participants.indexOf(participantKey(track));
+      const tile = {
+        x: (slot % cols) * width,
+        y: Math.floor(slot / cols) * height,
+        width,
+        height,
+      };
+
+      const input = presenting ? `[grid${i}]` : `[${i}:v]`;
+      if (presenting) filters.push(`[${i}:v]split=2[grid${i}][small${i}]`);
+      filters.push(`${scaleTo(input, tile)}${label(track, 24)}[tile${i}]`);
+      overlay(`[tile${i}]`, tile, track);
+    });
+
+    if (presenting) {
+      screens();
+      thumbnails(i => `[small${i}]`, presenting);
+    }
+  }
+
+  filters.push(`${canvas}format=yuv420p[vout]`);
+
+  audioTracks.forEach((track, i) => {
+    const delay = Math.round(track.startOffset);
+    filters.push(
+      `[${videoTracks.length + i}:a]aresample=48000,asetpts=PTS-STARTPTS,adelay=${delay}|${delay}[a${i}]`
+    );
+  });
+  if (audioTracks.length > 0) {
+    filters.push(
+      `${audioTracks.map((_, i) => `[a${i}]`).join("")}` +
+        `amix=inputs=${audioTracks.length}:duration=longest:dropout_transition=0:normalize=0[aout]`
+    );
+  }
+
+  return [
+    "-hide_banner",
+    "-y",
+    ...inputs.flatMap(track => ["-i", path.join(directory, track.file)]),
+    "-filter_complex",
+    filters.join(";"),
+    "-map",
+    "[vout]",
+    ...(audioTracks.length > 0 ? ["-map", "[aout]", "-c:a", "aac", "-b:a", "128k"] : []),
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "23",
+    "-r",
+    String(OUTPUT_FPS),
+    "-t",
+    durationSec,
+    "-movflags",
+    "+faststart",
+    "-progress",
+    "pipe:1",
+    "-nostats",
+    outputPath,
+  ];
+};
+
+/**
+ * Turns the manifest's dominant speaker changes into [from, to] millisecond
+ * intervals per participant. Changes to someone without video are ignored so
+ * the main area keeps showing the previous speaker; before anyone speaks the
+ * first participant is featured.
+ */
+export const getSpeakerIntervals = (manifest: RecordingManifest, participants: string[]) => {
+  const keysBySocket = new Map(manifest.tracks.map(t => [t.socketId, participantKey(t)]));
+  const intervals = new Map<string, [number, number][]>();
+  if (participants.length === 0) return intervals;
+
+  let current = participants[0];
+  let since = 0;
+  const close = (until: number) => {
+    if (until <= since) return;
+    intervals.set(current, [...(intervals.get(current) || []), [since, until]]);
+  };
+
+  manifest.speakers.forEach(change => {
+    const key = keysBySocket.get(change.socketId);
+    if (!key || key === current || !participants.includes(key)) return;
+
+    close(change.offset);
+    current = key;
+    since = change.offset;
+  });
+  close(getRecordingDuration(manifest));
+
+  return intervals;
+};
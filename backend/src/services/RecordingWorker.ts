@@ -0,0 +1,154 @@
+import { spawn } from "child_process";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { Recording } from "../models/Recording";
+import { User } from "../models/User";
+import { RecordingManifest } from "./MeetingRecorder";
+import {
+  buildCompositeArgs,
+  getRecordingDuration,
+  participantKey,
+} from "./RecordingCompositor";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const COMPOSITE_FILE = "composite.mp4";
+const PROGRESS_UPDATE_INTERVAL_MS = 1000;
+const STDERR_TAIL_LENGTH = 2000;
+
+/**
+ * Renders stopped recordings into a single composite MP4, one at a time, in
+ * the background. Progress is stored on the Recording document; recordings
+ * left queued or half-rendered by a restart are picked up again on boot.
+ */
+export class RecordingWorker {
+  private queue: string[] = [];
+  private running = false;
+
+  public enqueue(recordingId: string) {
+    if (this.queue.includes(recordingId)) return;
+
+    this.queue.push(recordingId);
+    console.log(`[WORKER] Queued ${recordingId} (${this.queue.length} pending)`);
+    this.processQueue();
+  }
+
+  public async resumePending() {
+    const pending = await Recording.find({
+      status: { $in: ["queued", "processing"] },
+    }).sort({ stoppedAt: 1 });
+
+    pending.forEach(recording => this.enqueue(recording.recordingId));
+  }
+
+  private async processQueue() {
+    if (this.running) return;
+    this.running = true;
+
+    while (this.queue.length > 0) {
+      const recordingId = this.queue.shift()!;
+
+      try {
+        await this.composite(recordingId);
+      } catch (err: any) {
+        console.error(`[WORKER] Compositing ${recordingId} failed:`, err);
+        await Recording.updateOne(
+          { recordingId },
+          { status: "failed", error: err?.message || String(err) }
+        ).catch(dbErr => console.error("[WORKER] Status update failed:", dbErr));
+      }
+    }
+
+    this.running = false;
+  }
+
+  private async composite(recordingId: string) {
+    const recording = await Recording.findOne({ recordingId });
+    if (!recording) {
+      console.warn(`[WORKER] Recording not found: ${recordingId}`);
+      return;
+    }
+
+    console.log(`[WORKER] Compositing ${recordingId} (${recording.layout} layout)`);
+    recording.status = "processing";
+    recording.progress = 0;
+    await recording.save();
+
+    const manifest: RecordingManifest = JSON.parse(
+      await readFile(path.join(recording.directory, "manifest.json"), "utf8")
+    );
+
+    const args = buildCompositeArgs({
+      manifest,
+      layout: recording.layout,
+      directory: recording.directory,
+      outputPath: path.join(recording.directory, COMPOSITE_FILE),
+      labelFiles: await this.writeLabels(manifest, recording.directory),
+      fontFile: process.env.RECORDING_FONT_FILE,
+    });
+
+    await this.runFfmpeg(args, getRecordingDuration(manifest), progress =>
+      Recording.updateOne({ recordingId }, { progress })
+    );
+
+    recording.status = "ready";
+    recording.progress = 100;
+    recording.outputFile = COMPOSITE_FILE;
+    recording.completedAt = new Date();
+    await recording.save();
+
+    console.log(`[WORKER] ${recordingId} ready`);
+  }
+
+  // drawtext reads labels from files so names never need filter escaping
+  private async writeLabels(manifest: RecordingManifest, directory: string) {
+    const userIds = Array.from(
+      new Set(manifest.tracks.map(t => t.userId).filter(Boolean))
+    );
+    const users = await User.find({ _id: { $in: userIds } }).select("name");
+    const names = new Map(users.map(u => [u._id.toString(), u.name]));
+
+    const labelFiles = new Map<string, string>();
+    for (const track of manifest.tracks) {
+      const key = participantKey(track);
+      if (labelFiles.has(key)) continue;
+
+      const file = path.join(directory, `label-${labelFiles.size}.txt`);
+      await writeFile(file, (track.userId && names.get(track.userId)) || "Guest");
+      labelFiles.set(key, file);
+    }
+
+    return labelFiles;
+  }
+
+  private runFfmpeg(
+    args: string[],
+    durationMs: number,
+    onProgress: (progress: number) => Promise<unknown>
+  ) {
+    return new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn(FFMPEG_PATH, args);
+      let stderr = "";
+      let lastUpdate = 0;
+
+      ffmpeg.stdout.on("data", (chunk: Buffer) => {
+        // -progress writes key=value lines; out_time_us is the encoded position
+        const match = /out_time_us=(\d+)/.exec(chunk.toString());
+        if (!match || Date.now() - lastUpdate < PROGRESS_UPDATE_INTERVAL_MS) return;
+
+        lastUpdate = Date.now();
+        const progress = Math.min(99, Math.round(Number(match[1]) / 10 / Math.max(durationMs, 1)));
+        onProgress(progress).catch(err => console.error("[WORKER] Progress update failed:", err));
+      });
+
+      ffmpeg.stderr.on("data", (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_LENGTH);
+      });
+
+      ffmpeg.on("error", reject);
+      ffmpeg.on("close", code => {
+        if (code === 0) return resolve();
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      });
+    });
+  }
+}
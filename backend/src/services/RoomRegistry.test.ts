@@ -0,0 +1,200 @@
+import RedisMock from "ioredis-mock";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConnectionStats, RedisClient, RoomRegistry } from "./RoomRegistry";
+
+// The node-redis calls RoomRegistry makes, on top of an in-memory Redis that
+// runs the Lua scripts
+const createRedis = () => {
+  const redis = new RedisMock();
+
+  const client = {
+    eval: (script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) =>
+      redis.eval(script, keys.length, ...keys, ...args),
+    exists: (key: string) => redis.exists(key),
+    del: (key: string) => redis.del(key),
+    set: (key: string, value: string, { EX }: { EX: number }) => redis.set(key, value, "EX", EX),
+    hGet: (key: string, field: string) => redis.hget(key, field),
+    hGetAll: (key: string) => redis.hgetall(key),
+    hSet: (key: string, field: string, value: string) => redis.hset(key, field, value),
+    hDel: (key: string, field: string) => redis.hdel(key, field),
+    hExists: async (key: string, field: string) => (await redis.hexists(key, field)) === 1,
+    hVals: (key: string) => redis.hvals(key),
+    hLen: (key: string) => redis.hlen(key),
+    multi: () => {
+      const transaction = redis.multi();
+      const chain = {
+        hSet: (key: string, field: string, value: string) => (transaction.hset(key, field, value), chain),
+        hDel: (key: string, field: string) => (transaction.hdel(key, field), chain),
+        exec: () => transaction.exec(),
+      };
+      return chain;
+    },
+  };
+
+  return { redis, client: client as unknown as RedisClient };
+};
+
+const room = {
+  meetingId: "meeting-1",
+  host: "host-user",
+  videoCodecs: ["VP8" as const],
+  lastN: 4,
+  e2ee: false,
+};
+
+const stats = (socketId: string, userId: string, nodeId = "node-a"): ConnectionStats => ({
+  socketId,
+  userId,
+  nodeId,
+  joinedAt: new Date(0).toISOString(),
+  latency: 0,
+  bandwidth: { up: 0, down: 0 },
+  isAudioEnabled: true,
+  isVideoEnabled: true,
+  isScreenSharing: false,
+});
+
+describe("RoomRegistry", () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let nodeA: RoomRegistry;
+  let nodeB: RoomRegistry;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const fake = createRedis();
+    redis = fake.redis;
+    await redis.flushall();
+    nodeA = new RoomRegistry(fake.client, "node-a");
+    nodeB = new RoomRegistry(fake.client, "node-b");
+    await nodeA.start();
+    await nodeB.start();
+  });
+
+  afterEach(async () => {
+    await nodeA.stop();
+    await nodeB.stop();
+    vi.restoreAllMocks();
+  });
+
+  describe("ensureRoom", () => {
+    it("creates the room with the calling node as media node", async () => {
+      const result = await nodeA.ensureRoom(room);
+
+      expect(result).toEqual({ room: { ...room, mediaNode: "node-a" }, tookOver: false });
+      expect(await nodeB.getRoom(room.meetingId)).toEqual({
+        ...room,
+        mediaNode: "node-a",
+        recordingId: undefined,
+      });
+    });
+
+    it("joins an existing room whose media node is alive", async () => {
+      await nodeA.ensureRoom(room);
+
+      const result = await nodeB.ensureRoom({ ...room, host: "someone-else" });
+
+      expect(result.tookOver).toBe(false);
+      expect(result.room.mediaNode).toBe("node-a");
+      expect(result.room.host).toBe("host-user");
+    });
+
+    it("takes over a room whose media node stopped heartbeating", async () => {
+      await nodeA.ensureRoom(room);
+      await nodeA.setRecordingId(room.meetingId, "recording-1");
+      await nodeA.stop();
+
+      const result = await nodeB.ensureRoom(room);
+
+      expect(result.tookOver).toBe(true);
+      expect(result.room.mediaNode).toBe("node-b");
+      expect(result.room.recordingId).toBeUndefined();
+      expect(await nodeB.getMediaNode(room.meetingId)).toBe("node-b");
+      expect(await redis.hget("relay:room:meeting-1", "recordingId")).toBeNull();
+    });
+  });
+
+  describe("resumeParticipant", () => {
+    it("moves the seat to the new socket with its codecs and a fresh token", async () => {
+      await nodeA.ensureRoom(room);
+      const token = await nodeA.addParticipant(room.meetingId, stats("socket-1", "user-1"), ["VP8"]);
+
+      const resumed = await nodeB.resumeParticipant(room.meetingId, "socket-1", token, {
+        socketId: "socket-2",
+        userId: "user-1",
+        nodeId: "node-b",
+        isAudioEnabled: false,
+        isVideoEnabled: true,
+      });
+
+      expect(resumed.sessionToken).not.toBe(token);
+      expect(resumed.participant).toMatchObject({ socketId: "socket-2", nodeId: "node-b", isAudioEnabled: false });
+      expect(await nodeA.hasParticipant(room.meetingId, "socket-1")).toBe(false);
+      expect(await nodeA.getParticipant(room.meetingId, "socket-2")).toEqual(resumed.participant);
+      expect(await nodeA.getReceiveCodecs(room.meetingId)).toEqual([["VP8"]]);
+    });
+
+    it("spends the token on the first resume", async () => {
+      await nodeA.ensureRoom(room);
+      const token = await nodeA.addParticipant(room.meetingId, stats("socket-1", "user-1"));
+      const update = { userId: "user-1", nodeId: "node-a", isAudioEnabled: true, isVideoEnabled: true };
+
+      const [first, second] = await Promise.all([
+        nodeA.resumeParticipant(room.meetingId, "socket-1", token, { ...update, socketId: "socket-2" }),
+        nodeB.resumeParticipant(room.meetingId, "socket-1", token, { ...update, socketId: "socket-3" }),
+      ]);
+
+      expect([first, second].filter(Boolean)).toHaveLength(1);
+      expect(await nodeA.getParticipants(room.meetingId)).toHaveLength(1);
+    });
+
+    it("rejects a wrong token or another user", async () => {
+      await nodeA.ensureRoom(room);
+      const token = await nodeA.addParticipant(room.meetingId, stats("socket-1", "user-1"));
+      const update = {
+        socketId: "socket-2",
+        nodeId: "node-a",
+        isAudioEnabled: true,
+        isVideoEnabled: true,
+      };
+
+      expect(
+        await nodeA.resumeParticipant(room.meetingId, "socket-1", "wrong-token", { ...update, userId: "user-1" })
+      ).toBeNull();
+      expect(await nodeA.resumeParticipant(room.meetingId, "socket-1", token, { ...update, userId: "user-2" })).toBeNull();
+      expect(await nodeA.hasParticipant(room.meetingId, "socket-1")).toBe(true);
+    });
+  });
+
+  describe("removeParticipant", () => {
+    it("returns how many participants remain", async () => {
+      await nodeA.ensureRoom(room);
+      await nodeA.addParticipant(room.meetingId, stats("socket-1", "user-1"), ["VP8"]);
+      await nodeA.addParticipant(room.meetingId, stats("socket-2", "user-2"), ["H264"]);
+
+      expect(await nodeA.removeParticipant(room.meetingId, "socket-1")).toBe(1);
+      expect(await nodeA.getRoom(room.meetingId)).not.toBeNull();
+      expect(await nodeA.getReceiveCodecs(room.meetingId)).toEqual([["H264"]]);
+    });
+
+    it("deletes the room with its last participant", async () => {
+      await nodeA.ensureRoom(room);
+      await nodeA.addParticipant(room.meetingId, stats("socket-1", "user-1"), ["VP8"]);
+
+      expect(await nodeA.removeParticipant(room.meetingId, "socket-1")).toBe(0);
+      expect(await nodeA.getRoom(room.meetingId)).toBeNull();
+      expect(await redis.keys("relay:room:*")).toEqual([]);
+    });
+
+    it("lets the next join create the room afresh", async () => {
+      await nodeA.ensureRoom(room);
+      await nodeA.addParticipant(room.meetingId, stats("socket-1", "user-1"));
+      await nodeA.removeParticipant(room.meetingId, "socket-1");
+
+      const result = await nodeB.ensureRoom(room);
+
+      expect(result).toEqual({ room: { ...room, mediaNode: "node-b" }, tookOver: false });
+    });
+  });
+});
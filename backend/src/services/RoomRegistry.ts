@@ -0,0 +1,316 @@
+import { createClient } from "redis";
+import { v4 as uuidv4 } from "uuid";
+import { VideoCodec } from "../models/Meeting";
+import { ConnectionStats as ParticipantStats } from "../../../shared/signaling";
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+export interface ConnectionStats extends ParticipantStats {
+  // Backend node holding the participant's socket
+  nodeId: string;
+}
+
+export interface RegisteredRoom {
+  meetingId: string;
+  host: string;
+  videoCodecs: VideoCodec[];
+  lastN: number;
+  e2ee: boolean;
+  // Node whose MediaRouter terminates every transport of the meeting
+  mediaNode: string;
+  recordingId?: string;
+}
+
+const KEY_PREFIX = "relay";
+const NODE_TTL_SEC = 30;
+const HEARTBEAT_INTERVAL_MS = 10000;
+
+const roomKey = (meetingId: string) => `${KEY_PREFIX}:room:${meetingId}`;
+const participantsKey = (meetingId: string) => `${roomKey(meetingId)}:participants`;
+const codecsKey = (meetingId: string) => `${roomKey(meetingId)}:codecs`;
+const sessionsKey = (meetingId: string) => `${roomKey(meetingId)}:sessions`;
+const nodeKey = (nodeId: string) => `${KEY_PREFIX}:node:${nodeId}`;
+
+// Claiming the media node and writing the room happen in one step, so no
+// other node ever sees a room without its media node and claims it too
+const CREATE_ROOM_SCRIPT = `
+if redis.call("HSETNX", KEYS[1], "mediaNode", ARGV[1]) == 0 then return 0 end
+redis.call("HSET", KEYS[1], "meetingId", ARGV[2], "host", ARGV[3],
+  "videoCodecs", ARGV[4], "lastN", ARGV[5], "e2ee", ARGV[6])
+return 1`;
+
+// Moves the room off a dead media node, unless another node already did
+const TAKE_OVER_SCRIPT = `
+if redis.call("HGET", KEYS[1], "mediaNode") ~= ARGV[1] then return 0 end
+redis.call("HSET", KEYS[1], "mediaNode", ARGV[2])
+redis.call("HDEL", KEYS[1], "recordingId")
+return 1`;
+
+// Removes a participant and, with the last one, the room, so a join that
+// comes in between never finds its room deleted underneath it
+const REMOVE_PARTICIPANT_SCRIPT = `
+redis.call("HDEL", KEYS[2], ARGV[1])
+redis.call("HDEL", KEYS[3], ARGV[1])
+redis.call("HDEL", KEYS[4], ARGV[1])
+local remaining = redis.call("HLEN", KEYS[2])
+if remaining == 0 then redis.call("DEL", KEYS[1], KEYS[2], KEYS[3], KEYS[4]) end
+return remaining`;
+
+// Moves a seat to a new socket if its session token still matches. A token
+// is spent by the first resume, so a second one with the same token fails.
+const RESUME_PARTICIPANT_SCRIPT = `
+if redis.call("HGET", KEYS[2], ARGV[1]) ~= ARGV[2] then return 0 end
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 0 then return 0 end
+local codecs = redis.call("HGET", KEYS[3], ARGV[1])
+redis.call("HDEL", KEYS[1], ARGV[1])
+redis.call("HDEL", KEYS[2], ARGV[1])
+redis.call("HDEL", KEYS[3], ARGV[1])
+redis.call("HSET", KEYS[1], ARGV[3], ARGV[4])
+redis.call("HSET", KEYS[2], ARGV[3], ARGV[5])
+if codecs then redis.call("HSET", KEYS[3], ARGV[3], codecs) end
+return 1`;
+
+/**
+ * Meeting rooms shared by every backend node through Redis. Each room lives
+ * in a hash with its participants and their decodable codecs alongside, and
+ * each node keeps a heartbeat key so rooms can outlive the node that created
+ * them: the next join claims media for a room whose media node went away, and
+ * participants connected to dead nodes can be pruned.
+ *
+ * Every participant also holds a session token, kept out of the participant
+ * record that is shared with the room, which lets it take its seat over from
+ * a new socket after a reconnect.
+ */
+export class RoomRegistry {
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(private redis: RedisClient, public readonly nodeId: string) {}
+
+  public async start() {
+    await this.heartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(err => console.error("[REGISTRY] Heartbeat failed:", err));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    console.log(`[REGISTRY] Node ${this.nodeId} registered`);
+  }
+
+  public async stop() {
+    clearInterval(this.heartbeatTimer);
+    await this.redis.del(nodeKey(this.nodeId));
+  }
+
+  public async isNodeAlive(nodeId: string) {
+    return nodeId === this.nodeId || (await this.redis.exists(nodeKey(nodeId))) === 1;
+  }
+
+  /**
+   * Returns the room, creating it with this node as media node if it does
+   * not exist yet or taking it over if its media node stopped heartbeating.
+   * After a takeover the participants already in the room have no media on
+   * this node; the caller has to attach them again.
+   */
+  public async ensureRoom(
+    room: Omit<RegisteredRoom, "mediaNode">
+  ): Promise<{ room: RegisteredRoom; tookOver: boolean }> {
+    const key = roomKey(room.meetingId);
+    const created = await this.redis.eval(CREATE_ROOM_SCRIPT, {
+      keys: [key],
+      arguments: [
+        this.nodeId,
+        room.meetingId,
+        room.host,
+        JSON.stringify(room.videoCodecs),
+        String(room.lastN),
+        room.e2ee ? "1" : "0",
+      ],
+    });
+
+    if (created === 1) {
+      console.log(`[REGISTRY] Creating room ${room.meetingId} on ${this.nodeId}`);
+      return { room: { ...room, mediaNode: this.nodeId }, tookOver: false };
+    }
+
+    // Deleted with its last participant since; create it afresh
+    const existing = await this.getRoom(room.meetingId);
+    if (!existing) return this.ensureRoom(room);
+
+    if (await this.isNodeAlive(existing.mediaNode)) return { room: existing, tookOver: false };
+
+    const tookOver = await this.redis.eval(TAKE_OVER_SCRIPT, {
+      keys: [key],
+      arguments: [existing.mediaNode, this.nodeId],
+    });
+    // Another node got there first
+    if (tookOver !== 1) return this.ensureRoom(room);
+
+    console.warn(`[REGISTRY] Media node ${existing.mediaNode} of ${room.meetingId} is gone, took over`);
+    return { room: { ...existing, mediaNode: this.nodeId, recordingId: undefined }, tookOver: true };
+  }
+
+  public async getRoom(meetingId: string): Promise<RegisteredRoom | null> {
+    const fields = await this.redis.hGetAll(roomKey(meetingId));
+    if (!fields.meetingId || !fields.mediaNode) return null;
+
+    return {
+      meetingId: fields.meetingId,
+      host: fields.host,
+      videoCodecs: JSON.parse(fields.videoCodecs || "[]"),
+      lastN: Number(fields.lastN),
+      e2ee: fields.e2ee === "1",
+      mediaNode: fields.mediaNode,
+      recordingId: fields.recordingId || undefined,
+    };
+  }
+
+  public async getMediaNode(meetingId: string) {
+    return (await this.redis.hGet(roomKey(meetingId), "mediaNode")) || null;
+  }
+
+  public async setRecordingId(meetingId: string, recordingId?: string) {
+    if (recordingId) {
+      await this.redis.hSet(roomKey(meetingId), "recordingId", recordingId);
+    } else {
+      await this.redis.hDel(roomKey(meetingId), "recordingId");
+    }
+  }
+
+  // Returns the participant's session token
+  public async addParticipant(meetingId: string, stats: ConnectionStats, receiveCodecs?: string[]) {
+    const sessionToken = uuidv4();
+    const transaction = this.redis
+      .multi()
+      .hSet(participantsKey(meetingId), stats.socketId, JSON.stringify(stats))
+      .hSet(sessionsKey(meetingId), stats.socketId, sessionToken);
+    if (receiveCodecs) {
+      transaction.hSet(codecsKey(meetingId), stats.socketId, JSON.stringify(receiveCodecs));
+    }
+    await transaction.exec();
+
+    return sessionToken;
+  }
+
+  /**
+   * Moves a participant to a new socket if the session token matches, keeping
+   * its record and codecs. Returns the updated record and a fresh token, or
+   * null when the session is unknown or belongs to another user.
+   */
+  public async resumeParticipant(
+    meetingId: string,
+    previousSocketId: string,
+    sessionToken: string,
+    update: Pick<ConnectionStats, "socketId" | "userId" | "nodeId" | "isAudioEnabled" | "isVideoEnabled">
+  ) {
+    const current = await this.redis.hGet(participantsKey(meetingId), previousSocketId);
+    if (!current) return null;
+
+    const previous: ConnectionStats = JSON.parse(current);
+    if (previous.userId !== update.userId) return null;
+
+    // The token is checked atomically with the move
+    const participant: ConnectionStats = { ...previous, ...update };
+    const newToken = uuidv4();
+    const resumed = await this.redis.eval(RESUME_PARTICIPANT_SCRIPT, {
+      keys: [participantsKey(meetingId), sessionsKey(meetingId), codecsKey(meetingId)],
+      arguments: [
+        previousSocketId,
+        sessionToken,
+        participant.socketId,
+        JSON.stringify(participant),
+        newToken,
+      ],
+    });
+    if (resumed !== 1) return null;
+
+    return { participant, sessionToken: newToken };
+  }
+
+  public async setReceiveCodecs(meetingId: string, socketId: string, receiveCodecs: string[]) {
+    await this.redis.hSet(codecsKey(meetingId), socketId, JSON.stringify(receiveCodecs));
+  }
+
+  public async updateParticipant(
+    meetingId: string,
+    socketId: string,
+    update: Partial<
+      Pick<ConnectionStats, "latency" | "bandwidth" | "isAudioEnabled" | "isVideoEnabled" | "isScreenSharing">
+    >
+  ) {
+    const current = await this.redis.hGet(participantsKey(meetingId), socketId);
+    if (!current) return false;
+
+    await this.redis.hSet(
+      participantsKey(meetingId),
+      socketId,
+      JSON.stringify({ ...JSON.parse(current), ...update })
+    );
+    return true;
+  }
+
+  /**
+   * Removes a participant and returns how many remain. The room is deleted
+   * together with its last participant.
+   */
+  public async removeParticipant(meetingId: string, socketId: string) {
+    const remaining = Number(
+      await this.redis.eval(REMOVE_PARTICIPANT_SCRIPT, {
+        keys: [
+          roomKey(meetingId),
+          participantsKey(meetingId),
+          codecsKey(meetingId),
+          sessionsKey(meetingId),
+        ],
+        arguments: [socketId],
+      })
+    );
+
+    if (remaining === 0) {
+      console.log(`[REGISTRY] Removed empty room ${meetingId}`);
+    }
+    return remaining;
+  }
+
+  public async hasParticipant(meetingId: string, socketId: string) {
+    return await this.redis.hExists(participantsKey(meetingId), socketId);
+  }
+
+  public async getParticipant(meetingId: string, socketId: string): Promise<ConnectionStats | null> {
+    const entry = await this.redis.hGet(participantsKey(meetingId), socketId);
+    return entry ? JSON.parse(entry) : null;
+  }
+
+  public async getParticipants(meetingId: string): Promise<ConnectionStats[]> {
+    const entries = await this.redis.hVals(participantsKey(meetingId));
+    return entries.map(entry => JSON.parse(entry));
+  }
+
+  // Codecs each participant reported it can decode
+  public async getReceiveCodecs(meetingId: string): Promise<string[][]> {
+    const entries = await this.redis.hVals(codecsKey(meetingId));
+    return entries.map(entry => JSON.parse(entry));
+  }
+
+  // Removes participants whose node stopped heartbeating and returns their socket ids
+  public async pruneDeadParticipants(meetingId: string) {
+    const pruned: string[] = [];
+
+    for (const participant of await this.getParticipants(meetingId)) {
+      if (await this.isNodeAlive(participant.nodeId)) continue;
+
+      console.log(`[REGISTRY] Dropping ${participant.socketId} of dead node ${participant.nodeId}`);
+      await this.redis
+        .multi()
+        .hDel(participantsKey(meetingId), participant.socketId)
+        .hDel(codecsKey(meetingId), participant.socketId)
+        .hDel(sessionsKey(meetingId), participant.socketId)
+        .exec();
+      pruned.push(participant.socketId);
+    }
+
+    return pruned;
+  }
+
+  private async heartbeat() {
+    await this.redis.set(nodeKey(this.nodeId), new Date().toISOString(), { EX: NODE_TTL_SEC });
+  }
+}
@@ -1,41 +1,94 @@
 import { Server as SocketIOServer, Socket } from "socket.io";
 import { Server as HTTPServer } from "http";
+import { createAdapter } from "@socket.io/redis-adapter";
 import jwt from "jsonwebtoken";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
 import { User } from "../models/User";
-import { Meeting } from "../models/Meeting";
-
-interface AuthenticatedSocket extends Socket {
+import { Meeting, VideoCodec } from "../models/Meeting";
+import { Recording, RecordingLayout } from "../models/Recording";
+import { MediaRouter, TransportDirection } from "./MediaRouter";
+import { MeetingRecorder } from "./MeetingRecorder";
+import { RecordingWorker } from "./RecordingWorker";
+import { appendWhiteboardUpdate, loadWhiteboard } from "./WhiteboardStore";
+import { loadChatHistory, saveChatMessage } from "./ChatStore";
+import { ConnectionStats, RedisClient, RegisteredRoom, RoomRegistry } from "./RoomRegistry";
+import {
+  Ack,
+  AckErrorCode,
+  ChatParticipant,
+  ClientEvent,
+  ClientToServerEvents,
+  IceCandidate,
+  ParsedClientPayload,
+  ServerArgs,
+  ServerToClientEvents,
+  SessionDescription,
+  clientEvents,
+  describeIssue,
+} from "../../../shared/signaling";
+
+interface AuthenticatedSocket extends Socket<ClientToServerEvents, ServerToClientEvents> {
   userId?: string;
   userName?: string;
   userEmail?: string;
   meetingId?: string;
 }
 
-interface ConnectionStats {
-  socketId: string;
-  userId: string;
-  name?: string;
-  email?: string;
-  joinedAt: Date;
-  latency: number;
-  bandwidth: {
-    up: number;
-    down: number;
-  };
-}
-
-interface MeetingRoom {
-  meetingId: string;
-  participants: Map<string, ConnectionStats>;
-  host: string;
-}
-
+// Work for the media node of a meeting, relayed when the socket is elsewhere.
+// Descriptions and candidates are passed on as the protocol validated them.
+type MediaCall =
+  | { type: "join"; socketId: string; meetingId: string; userId: string; lastN: number }
+  | { type: "leave"; socketId: string }
+  | { type: "offer"; socketId: string; offer: ParsedClientPayload<"offer">["offer"]; screenStreamId?: string }
+  | { type: "answer"; socketId: string; answer: ParsedClientPayload<"answer">["answer"] }
+  | { type: "ice-candidate"; socketId: string; transport: TransportDirection; candidate: IceCandidate }
+  | { type: "restart-transport"; socketId: string; transport: TransportDirection }
+  | { type: "restart-ice"; socketId: string }
+  | { type: "video-size"; socketId: string; publisherId: string; width: number; height: number }
+  | { type: "pin-participants"; socketId: string; socketIds: string[] }
+  | { type: "video-visibility"; socketId: string; hidden: string[]; pageHidden: boolean }
+  | { type: "start-recording"; socketId: string; meetingId: string; userId: string; layout: RecordingLayout }
+  | { type: "stop-recording"; meetingId: string };
+
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || path.join(process.cwd(), "recordings");
+const NODE_ID = process.env.NODE_ID || uuidv4();
+// How long a dropped socket keeps its seat for the client to resume it
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 30000;
+
+// Chat messages sent to someone joining or resuming; the dashboard has all
+const CHAT_BACKLOG_LIMIT = 500;
+
+// Disconnects that end the session rather than interrupt it
+const FINAL_DISCONNECT_REASONS = ["client namespace disconnect", "server namespace disconnect"];
+
+const fail = (code: AckErrorCode, message: string) => ({ ok: false as const, error: { code, message } });
+const NOT_IN_MEETING = fail("NOT_IN_MEETING", "Join a meeting first");
+
+/**
+ * Signaling for every backend replica. Rooms live in the shared registry and
+ * Socket.IO broadcasts go through the Redis adapter, so participants of one
+ * meeting may be connected to different nodes. Media for a meeting stays on
+ * a single node; its signaling is relayed there from wherever the socket is.
+ *
+ * A socket that drops keeps its seat for a grace period. A client that
+ * reconnects in time resumes the session with its token from a new socket
+ * (on any node), and the room sees the participant move to the new socket id
+ * instead of leaving and rejoining.
+ */
 export class SFUServer {
-  private io: SocketIOServer;
-  private meetings: Map<string, MeetingRoom> = new Map();
-
-  constructor(server: HTTPServer) {
-    console.log("[SFU] Booting SFU Server...");
+  private io: SocketIOServer<ClientToServerEvents, ServerToClientEvents>;
+  private registry: RoomRegistry;
+  private mediaRouter: MediaRouter;
+  // User of each socket attached to this node's MediaRouter, for recordings
+  private mediaUsers: Map<string, string> = new Map();
+
+  constructor(
+    server: HTTPServer,
+    private recordingWorker: RecordingWorker,
+    private redis: RedisClient
+  ) {
+    console.log(`[SFU] Booting SFU Server (node ${NODE_ID})...`);
 
     this.io = new SocketIOServer(server, {
       cors: {
@@ -46,12 +99,37 @@ export class SFUServer {
       transports: ["websocket", "polling"],
     });
 
+    this.registry = new RoomRegistry(redis, NODE_ID);
+    this.mediaRouter = new MediaRouter(
+      (socketId, event, ...args) => {
+        this.io.to(socketId).emit(event, ...args);
+      },
+      // Disconnecting the socket runs the usual leave handling on its node
+      socketId => this.io.in(socketId).disconnectSockets(true)
+    );
+
     this.setupMiddleware();
     this.setupEventHandlers();
 
     console.log("[SFU] Socket.IO initialized");
   }
 
+  public async start() {
+    const pubClient = this.redis.duplicate();
+    const subClient = this.redis.duplicate();
+    pubClient.on("error", err => console.error("[REDIS] Adapter publisher error:", err));
+    subClient.on("error", err => console.error("[REDIS] Adapter subscriber error:", err));
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+
+    this.io.adapter(createAdapter(pubClient, subClient));
+    this.io.on("media-call", (mediaNode: string, call: MediaCall) => {
+      if (mediaNode === NODE_ID) this.handleMediaCall(call);
+    });
+
+    await this.registry.start();
+    console.log("[SFU] Redis adapter attached");
+  }
+
   private setupMiddleware() {
     this.io.use(async (socket: AuthenticatedSocket, next) => {
       try {
@@ -90,132 +168,752 @@ export class SFUServer {
     this.io.on("connection", (socket: AuthenticatedSocket) => {
       console.log(`[CONNECT] User ${socket.userId} connected with socket ${socket.id}`);
 
-      socket.on("join-meeting", async ({ meetingId }) => {
+      this.on(socket, "join-meeting", async ({ meetingId, receiveCodecs, isAudioEnabled, isVideoEnabled }) => {
         console.log(`[ROOM] ${socket.userId} attempting to join ${meetingId}`);
 
-        try {
-          const meeting = await Meeting.findOne({ meetingId, isActive: true });
-          if (!meeting) {
-            console.error(`[ROOM] Meeting not found: ${meetingId}`);
-            socket.emit("error", { message: "Meeting not found or ended" });
-            return;
-          }
+        // The seat, room membership and media peer of a socket are per meeting
+        if (socket.meetingId) {
+          console.warn(`[ROOM] ${socket.id} is already in ${socket.meetingId}`);
+          return fail("FORBIDDEN", "Leave your current meeting first");
+        }
+
+        const meeting = await Meeting.findOne({ meetingId, isActive: true });
+        if (!meeting) {
+          console.error(`[ROOM] Meeting not found: ${meetingId}`);
+          return fail("MEETING_NOT_FOUND", "Meeting not found or ended");
+        }
 
-          socket.join(meetingId);
-          socket.meetingId = meetingId;
+        const { room, tookOver } = await this.registry.ensureRoom({
+          meetingId,
+          host: meeting.hostId.toString(),
+          videoCodecs: meeting.videoCodecs,
+          lastN: meeting.lastN,
+          e2ee: meeting.e2ee,
+        });
+
+        // Participants of a node that died never disconnected
+        for (const socketId of await this.registry.pruneDeadParticipants(meetingId)) {
+          this.io.to(meetingId).emit("user-left", { socketId });
+          this.sendMediaCall(room.mediaNode, { type: "leave", socketId });
+        }
+        if (tookOver) await this.reattachMedia(room);
 
-          if (!this.meetings.has(meetingId)) {
-            console.log(`[ROOM] Creating new room: ${meetingId}`);
-            this.meetings.set(meetingId, {
-              meetingId,
-              participants: new Map(),
-              host: meeting.hostId.toString(),
-            });
-          }
+        const previousCodecs = await this.getVideoCodecs(room);
 
-          const room = this.meetings.get(meetingId)!;
+        socket.join(meetingId);
+        socket.meetingId = meetingId;
 
-          room.participants.set(socket.id, {
+        const sessionToken = await this.registry.addParticipant(
+          meetingId,
+          {
             socketId: socket.id,
             userId: socket.userId!,
-            joinedAt: new Date(),
+            nodeId: NODE_ID,
+            joinedAt: new Date().toISOString(),
             latency: 0,
             bandwidth: { up: 0, down: 0 },
-          });
+            isAudioEnabled,
+            isVideoEnabled,
+            isScreenSharing: false,
+          },
+          receiveCodecs
+        );
+
+        const participants = await this.registry.getParticipants(meetingId);
+        console.log(`[ROOM] ${socket.userId} joined ${meetingId}. Total: ${participants.length}`);
+
+        this.sendMediaCall(room.mediaNode, {
+          type: "join",
+          socketId: socket.id,
+          meetingId,
+          userId: socket.userId!,
+          lastN: room.lastN,
+        });
+        await this.notifyVideoCodecs(room, previousCodecs);
+
+        socket.to(meetingId).emit("user-joined", {
+          userId: socket.userId!,
+          socketId: socket.id,
+          name: socket.userName,
+          email: socket.userEmail,
+          isAudioEnabled,
+          isVideoEnabled,
+        });
+
+        await this.sendRoomState(socket, room, participants, sessionToken);
+      });
 
-          console.log(`[ROOM] ${socket.userId} joined ${meetingId}. Total: ${room.participants.size}`);
+      // A reconnected client takes its seat over from its previous socket
+      this.on(socket, "resume-session", async d => {
+        const { meetingId, previousSocketId } = d;
+        console.log(`[ROOM] ${socket.userId} resuming ${previousSocketId} in ${meetingId}`);
 
-          socket.to(meetingId).emit("user-joined", {
-            userId: socket.userId,
-            socketId: socket.id,
-            name: socket.userName,
-            email: socket.userEmail,
-          });
+        if (socket.meetingId) {
+          console.warn(`[ROOM] ${socket.id} is already in ${socket.meetingId}`);
+          return fail("FORBIDDEN", "Leave your current meeting first");
+        }
 
-          const existingParticipants = await Promise.all(
-            Array.from(room.participants.values())
-              .filter(p => p.socketId !== socket.id)
-              .map(async p => {
-                const userInfo = await this.getUserInfo(p.userId);
-                return { ...p, name: userInfo?.name, email: userInfo?.email };
-              })
-          );
-
-          socket.emit("existing-participants", existingParticipants);
-          socket.emit("room-info", {
-            meetingId,
-            participants: Array.from(room.participants.values()),
-            isHost: room.host === socket.userId,
-          });
-        } catch (err) {
-          console.error("[ROOM] Join failed:", err);
-          socket.emit("error", { message: "Failed to join meeting" });
+        const room = await this.registry.getRoom(meetingId);
+        const resumed = room
+          ? await this.registry.resumeParticipant(meetingId, previousSocketId, d.sessionToken, {
+              socketId: socket.id,
+              userId: socket.userId!,
+              nodeId: NODE_ID,
+              isAudioEnabled: d.isAudioEnabled,
+              isVideoEnabled: d.isVideoEnabled,
+            })
+          : null;
+
+        if (!room || !resumed) {
+          console.warn(`[ROOM] Session of ${previousSocketId} can't be resumed by ${socket.id}`);
+          return fail("SESSION_EXPIRED", "The meeting session has expired");
         }
+
+        // The old socket may not have timed out yet (e.g. after sleep)
+        this.io.in(previousSocketId).disconnectSockets(true);
+
+        socket.join(meetingId);
+        socket.meetingId = meetingId;
+
+        if (d.receiveCodecs) {
+          const previousCodecs = await this.getVideoCodecs(room);
+          await this.registry.setReceiveCodecs(meetingId, socket.id, d.receiveCodecs);
+          await this.notifyVideoCodecs(room, previousCodecs);
+        }
+
+        // Transports are rebuilt from the new socket
+        this.sendMediaCall(room.mediaNode, { type: "leave", socketId: previousSocketId });
+        this.sendMediaCall(room.mediaNode, {
+          type: "join",
+          socketId: socket.id,
+          meetingId,
+          userId: socket.userId!,
+          lastN: room.lastN,
+        });
+
+        socket.to(meetingId).emit("participant-resumed", {
+          previousSocketId,
+          socketId: socket.id,
+          userId: socket.userId!,
+          name: socket.userName,
+          email: socket.userEmail,
+          isAudioEnabled: resumed.participant.isAudioEnabled,
+          isVideoEnabled: resumed.participant.isVideoEnabled,
+          isScreenSharing: resumed.participant.isScreenSharing,
+        });
+
+        const participants = await this.registry.getParticipants(meetingId);
+        console.log(`[ROOM] ${socket.userId} resumed in ${meetingId} as ${socket.id}`);
+        await this.sendRoomState(socket, room, participants, resumed.sessionToken);
       });
 
-      socket.on("offer", d => {
-        console.log(`[RTC] Offer from ${socket.id} to ${d.to}`);
-        socket.to(d.to).emit("offer", { from: socket.id, offer: d.offer });
+      this.on(socket, "leave-meeting", async () => {
+        const meetingId = socket.meetingId;
+        if (!meetingId) return NOT_IN_MEETING;
+
+        socket.leave(meetingId);
+        socket.meetingId = undefined;
+        await this.leaveMeeting(meetingId, socket.id);
       });
 
-      socket.on("answer", d => {
-        console.log(`[RTC] Answer from ${socket.id} to ${d.to}`);
-        socket.to(d.to).emit("answer", { from: socket.id, answer: d.answer });
+      this.on(socket, "offer", d => {
+        console.log(`[RTC] publish offer from ${socket.id}`);
+        return this.relayMediaCall(socket, {
+          type: "offer",
+          socketId: socket.id,
+          offer: d.offer,
+          screenStreamId: d.screenStreamId,
+        });
       });
 
-      socket.on("ice-candidate", d => {
-        console.log(`[RTC] ICE from ${socket.id} to ${d.to}`);
-        socket.to(d.to).emit("ice-candidate", { from: socket.id, candidate: d.candidate });
+      this.on(socket, "answer", d => {
+        console.log(`[RTC] subscribe answer from ${socket.id}`);
+        return this.relayMediaCall(socket, { type: "answer", socketId: socket.id, answer: d.answer });
       });
 
-      socket.on("toggle-audio", d => {
-        console.log(`[MEDIA] Audio ${d.enabled ? "ON" : "OFF"} by ${socket.userId}`);
-        socket.to(socket.meetingId!).emit("user-audio-toggled", { socketId: socket.id, enabled: d.enabled });
+      this.on(socket, "ice-candidate", d => {
+        console.log(`[RTC] ${d.transport} ICE from ${socket.id}`);
+        return this.relayMediaCall(socket, {
+          type: "ice-candidate",
+          socketId: socket.id,
+          transport: d.transport,
+          candidate: d.candidate,
+        });
       });
 
-      socket.on("toggle-video", d => {
-        console.log(`[MEDIA] Video ${d.enabled ? "ON" : "OFF"} by ${socket.userId}`);
-        socket.to(socket.meetingId!).emit("user-video-toggled", { socketId: socket.id, enabled: d.enabled });
+      this.on(socket, "restart-transport", d => {
+        console.log(`[RTC] ${d.transport} transport restart requested by ${socket.id}`);
+        return this.relayMediaCall(socket, { type: "restart-transport", socketId: socket.id, transport: d.transport });
       });
 
-      socket.on("stats-update", d => {
-        const room = this.meetings.get(socket.meetingId!);
-        if (room?.participants.has(socket.id)) {
-          room.participants.get(socket.id)!.latency = d.latency;
-          room.participants.get(socket.id)!.bandwidth = d.bandwidth;
-          console.log(`[STATS] ${socket.userId} latency=${d.latency}ms up=${d.bandwidth.up}kbps down=${d.bandwidth.down}kbps`);
+      this.on(socket, "restart-ice", () => {
+        console.log(`[RTC] subscribe ICE restart requested by ${socket.id}`);
+        return this.relayMediaCall(socket, { type: "restart-ice", socketId: socket.id });
+      });
+
+      this.on(socket, "video-size", d => {
+        return this.relayMediaCall(socket, {
+          type: "video-size",
+          socketId: socket.id,
+          publisherId: d.socketId,
+          width: d.width,
+          height: d.height,
+        });
+      });
+
+      this.on(socket, "start-recording", async ({ layout }) => {
+        const room = socket.meetingId ? await this.registry.getRoom(socket.meetingId) : null;
+        if (!room) return NOT_IN_MEETING;
+        if (room.host !== socket.userId) {
+          console.warn(`[REC] Unauthorized start attempt by ${socket.userId}`);
+          return fail("FORBIDDEN", "Only host can record the meeting");
+        }
+
+        if (room.recordingId) return;
+
+        // The SFU only ever sees ciphertext of encrypted meetings
+        if (room.e2ee) {
+          return fail("FORBIDDEN", "Encrypted meetings can't be recorded");
+        }
+
+        // Failures on the media node are reported through the error event
+        this.sendMediaCall(room.mediaNode, {
+          type: "start-recording",
+          socketId: socket.id,
+          meetingId: room.meetingId,
+          userId: socket.userId!,
+          layout,
+        });
+      });
+
+      this.on(socket, "stop-recording", async () => {
+        const room = socket.meetingId ? await this.registry.getRoom(socket.meetingId) : null;
+        if (!room) return NOT_IN_MEETING;
+        if (room.host !== socket.userId) {
+          console.warn(`[REC] Unauthorized stop attempt by ${socket.userId}`);
+          return fail("FORBIDDEN", "Only host can record the meeting");
         }
+
+        this.sendMediaCall(room.mediaNode, { type: "stop-recording", meetingId: room.meetingId });
+      });
+
+      this.on(socket, "pin-participants", d => {
+        console.log(`[MEDIA] ${socket.id} pinned ${d.socketIds.length} participants`);
+        return this.relayMediaCall(socket, { type: "pin-participants", socketId: socket.id, socketIds: d.socketIds });
+      });
+
+      this.on(socket, "video-visibility", d => {
+        return this.relayMediaCall(socket, {
+          type: "video-visibility",
+          socketId: socket.id,
+          hidden: d.hidden,
+          pageHidden: d.pageHidden,
+        });
+      });
+
+      // E2EE key exchange: public keys and wrapped media keys are opaque to
+      // the server, which only relays them within the meeting
+      this.on(socket, "e2ee-public-key", d => this.relayE2EE(socket, "e2ee-public-key", d));
+
+      this.on(socket, "e2ee-key", d => this.relayE2EE(socket, "e2ee-key", d));
+
+      this.on(socket, "toggle-audio", async ({ enabled }) => {
+        if (!socket.meetingId) return NOT_IN_MEETING;
+        console.log(`[MEDIA] Audio ${enabled ? "ON" : "OFF"} by ${socket.userId}`);
+        socket.to(socket.meetingId).emit("user-audio-toggled", { socketId: socket.id, enabled });
+        await this.registry.updateParticipant(socket.meetingId, socket.id, { isAudioEnabled: enabled });
+      });
+
+      this.on(socket, "toggle-video", async ({ enabled }) => {
+        if (!socket.meetingId) return NOT_IN_MEETING;
+        console.log(`[MEDIA] Video ${enabled ? "ON" : "OFF"} by ${socket.userId}`);
+        socket.to(socket.meetingId).emit("user-video-toggled", { socketId: socket.id, enabled });
+        await this.registry.updateParticipant(socket.meetingId, socket.id, { isVideoEnabled: enabled });
+      });
+
+      this.on(socket, "start-screen-share", () => this.setScreenSharing(socket, true));
+
+      this.on(socket, "stop-screen-share", () => this.setScreenSharing(socket, false));
+
+      // Drawing and pointing on a screen share: relayed to the rest of the
+      // meeting as it happens, never stored
+      this.on(socket, "annotation-stroke", d => this.relayAnnotation(socket, "annotation-stroke", d));
+
+      this.on(socket, "annotation-pointer", d => this.relayAnnotation(socket, "annotation-pointer", d));
+
+      this.on(socket, "annotation-clear", d => {
+        console.log(`[ANNOTATE] ${socket.userId} cleared annotations on ${d.presenterId}`);
+        return this.relayAnnotation(socket, "annotation-clear", d);
+      });
+
+      this.on(socket, "whiteboard-sync", async () => {
+        const meetingId = await this.checkStoredAccess(socket, "whiteboard-sync", "whiteboard");
+        if (typeof meetingId !== "string") return meetingId;
+
+        const update = await loadWhiteboard(meetingId);
+        return { ok: true, update: update && Buffer.from(update).toString("base64") };
       });
 
-      socket.on("disconnect", () => {
-        console.log(`[DISCONNECT] ${socket.userId} (${socket.id})`);
+      this.on(socket, "whiteboard-update", async d => {
+        const meetingId = await this.checkStoredAccess(socket, "whiteboard-update", "whiteboard");
+        if (typeof meetingId !== "string") return meetingId;
 
-        const room = this.meetings.get(socket.meetingId!);
-        if (room) {
-          room.participants.delete(socket.id);
-          socket.to(socket.meetingId!).emit("user-left", { socketId: socket.id });
+        await appendWhiteboardUpdate(meetingId, Buffer.from(d.update, "base64"));
+        socket.to(meetingId).emit("whiteboard-update", { update: d.update, from: socket.id });
+      });
+
+      this.on(socket, "chat-history", async () => {
+        const meetingId = await this.checkStoredAccess(socket, "chat-history", "chat");
+        if (typeof meetingId !== "string") return meetingId;
+
+        const messages = await loadChatHistory(meetingId, socket.userId!, CHAT_BACKLOG_LIMIT);
+        return { ok: true, messages };
+      });
 
-          if (room.participants.size === 0) {
-            console.log(`[ROOM] Destroying empty room ${socket.meetingId}`);
-            this.meetings.delete(socket.meetingId!);
+      // Stored before it is sent on; the sender gets it back in the ack
+      this.on(socket, "chat-message", async d => {
+        const meetingId = await this.checkStoredAccess(socket, "chat-message", "chat");
+        if (typeof meetingId !== "string") return meetingId;
+
+        let to: ChatParticipant | undefined;
+        if (d.to) {
+          const recipient = await this.registry.getParticipant(meetingId, d.to);
+          if (!recipient) {
+            // Same rules as E2EE key delivery: a recipient that just left is
+            // a race, one connected elsewhere is an attempt to escape the room
+            if ((await this.io.in(d.to).fetchSockets()).length > 0) {
+              return this.reportViolation(socket, "chat-message", `recipient ${d.to} is outside the meeting`);
+            }
+            return fail("FORBIDDEN", "Recipient is not in this meeting");
           }
+          const userInfo = await this.getUserInfo(recipient.userId);
+          to = { userId: recipient.userId, name: userInfo?.name, socketId: d.to };
         }
+
+        const from = { userId: socket.userId!, name: socket.userName, socketId: socket.id };
+        const message = await saveChatMessage(meetingId, from, d.text, to);
+        console.log(`[CHAT] ${socket.userId} sent ${message.id} in ${meetingId}${to ? ` to ${to.userId}` : ""}`);
+
+        if (to) {
+          this.io.to(to.socketId).emit("chat-message", message);
+        } else {
+          socket.to(meetingId).emit("chat-message", message);
+        }
+        return { ok: true, message };
+      });
+
+      // Answered with everyone's stats so clients can show the room's quality
+      this.on(socket, "stats-update", async d => {
+        if (!socket.meetingId) return NOT_IN_MEETING;
+
+        const updated = await this.registry.updateParticipant(socket.meetingId, socket.id, {
+          latency: d.latency,
+          bandwidth: { up: d.bandwidth.up, down: d.bandwidth.down },
+        });
+        if (updated) {
+          console.log(`[STATS] ${socket.userId} latency=${d.latency}ms up=${d.bandwidth.up}kbps down=${d.bandwidth.down}kbps`);
+        }
+
+        return { ok: true, stats: await this.registry.getParticipants(socket.meetingId) };
+      });
+
+      socket.on("disconnect", async reason => {
+        console.log(`[DISCONNECT] ${socket.userId} (${socket.id}): ${reason}`);
+
+        const meetingId = socket.meetingId;
+        if (!meetingId) return;
+
+        if (FINAL_DISCONNECT_REASONS.includes(reason)) {
+          await this.leaveMeeting(meetingId, socket.id);
+          return;
+        }
+
+        // Network drop or sleep: hold the seat in case the client resumes
+        console.log(`[ROOM] Holding ${socket.id} in ${meetingId} for ${RECONNECT_GRACE_MS}ms`);
+        this.io.to(meetingId).emit("participant-connection", {
+          socketId: socket.id,
+          state: "reconnecting",
+        });
+
+        setTimeout(() => {
+          this.leaveMeeting(meetingId, socket.id);
+        }, RECONNECT_GRACE_MS);
       });
     });
   }
 
-  public getMeetingStats(meetingId: string) {
-    const room = this.meetings.get(meetingId);
+  /**
+   * Registers a handler for a client request. The payload is validated
+   * against the protocol schema first, and whatever the handler returns
+   * (nothing meaning success) is sent back as the acknowledgement.
+   */
+  private on<E extends ClientEvent>(
+    socket: AuthenticatedSocket,
+    event: E,
+    handler: (payload: ParsedClientPayload<E>) => Ack<E> | void | Promise<Ack<E> | void>
+  ) {
+    const listener = async (payload: unknown, ack?: unknown) => {
+      // Requests without a payload arrive with the ack first
+      if (typeof payload === "function") {
+        ack = payload;
+        payload = {};
+      }
+      const respond = typeof ack === "function" ? (ack as (result: Ack<E>) => void) : () => {};
+
+      const parsed = clientEvents[event].safeParse(payload ?? {});
+      if (!parsed.success) {
+        const message = describeIssue(parsed.error);
+        console.warn(`[SIGNAL] Rejected ${event} from ${socket.id}: ${message}`);
+        respond(fail("INVALID_PAYLOAD", message));
+        return;
+      }
+
+      try {
+        const result = await handler(parsed.data as ParsedClientPayload<E>);
+        respond(result || ({ ok: true } as Ack<E>));
+      } catch (err) {
+        console.error(`[SIGNAL] ${event} from ${socket.id} failed:`, err);
+        respond(fail("INTERNAL", `Failed to handle ${event}`));
+      }
+    };
+
+    // The listener validates the raw payload itself, so it is registered
+    // through the untyped socket
+    (socket as Socket).on(event as string, listener);
+  }
+
+  private async sendRoomState(
+    socket: AuthenticatedSocket,
+    room: RegisteredRoom,
+    participants: ConnectionStats[],
+    sessionToken: string
+  ) {
+    const existingParticipants = await Promise.all(
+      participants
+        .filter(p => p.socketId !== socket.id)
+        .map(async p => {
+          const userInfo = await this.getUserInfo(p.userId);
+          return { ...p, name: userInfo?.name, email: userInfo?.email };
+        })
+    );
+
+    socket.emit("existing-participants", existingParticipants);
+    socket.emit("room-info", {
+      meetingId: room.meetingId,
+      participants,
+      isHost: room.host === socket.userId,
+      isRecording: !!room.recordingId,
+      videoCodecs: await this.getVideoCodecs(room),
+      e2ee: room.e2ee,
+      sessionToken,
+    });
+  }
+
+  // A room taken over from a dead media node has no peers on the new one.
+  // Everyone still in it is attached there and told to publish again; the
+  // new node offers their subscribe transports itself.
+  private async reattachMedia(room: RegisteredRoom) {
+    const participants = await this.registry.getParticipants(room.meetingId);
+    console.log(`[ROOM] Reattaching ${participants.length} participants of ${room.meetingId} to ${room.mediaNode}`);
+
+    participants.forEach(p => {
+      this.sendMediaCall(room.mediaNode, {
+        type: "join",
+        socketId: p.socketId,
+        meetingId: room.meetingId,
+        userId: p.userId,
+        lastN: room.lastN,
+      });
+    });
+    this.io.to(room.meetingId).emit("media-node-changed");
+  }
+
+  // No-op for a participant that resumed on another socket meanwhile
+  private async leaveMeeting(meetingId: string, socketId: string) {
+    try {
+      const room = await this.registry.getRoom(meetingId);
+      if (!room || !(await this.registry.hasParticipant(meetingId, socketId))) return;
+
+      console.log(`[ROOM] ${socketId} left ${meetingId}`);
+
+      this.sendMediaCall(room.mediaNode, { type: "leave", socketId });
+
+      const previousCodecs = await this.getVideoCodecs(room);
+      const remaining = await this.registry.removeParticipant(meetingId, socketId);
+      this.io.to(meetingId).emit("user-left", { socketId });
+
+      if (remaining === 0) {
+        console.log(`[ROOM] Destroying empty room ${meetingId}`);
+        this.sendMediaCall(room.mediaNode, { type: "stop-recording", meetingId });
+      } else {
+        await this.notifyVideoCodecs(room, previousCodecs);
+      }
+    } catch (err) {
+      console.error(`[ROOM] Leave failed for ${socketId}:`, err);
+    }
+  }
+
+  private async relayE2EE<E extends "e2ee-public-key" | "e2ee-key">(
+    socket: AuthenticatedSocket,
+    event: E,
+    d: ParsedClientPayload<E>
+  ) {
+    const meetingId = socket.meetingId;
+    if (!meetingId) return NOT_IN_MEETING;
+    if (!(await this.registry.hasParticipant(meetingId, socket.id))) {
+      return this.reportViolation(socket, event, "sender is not a participant");
+    }
+
+    const payload = [{ ...d, from: socket.id }] as ServerArgs<E>;
+    if (!d.to) {
+      socket.to(meetingId).emit(event, ...payload);
+      return;
+    }
+
+    if (!(await this.registry.hasParticipant(meetingId, d.to))) {
+      // A recipient that just left is a race; one still connected sits in
+      // another meeting
+      if ((await this.io.in(d.to).fetchSockets()).length > 0) {
+        return this.reportViolation(socket, event, `recipient ${d.to} is outside the meeting`);
+      }
+      return fail("FORBIDDEN", "Recipient is not in this meeting");
+    }
+    this.io.to(d.to).emit(event, ...payload);
+  }
+
+  // Broadcast to the sender's own meeting only, so no membership lookup is
+  // needed on this hot path
+  private relayAnnotation<E extends "annotation-stroke" | "annotation-pointer" | "annotation-clear">(
+    socket: AuthenticatedSocket,
+    event: E,
+    d: ParsedClientPayload<E>
+  ) {
+    if (!socket.meetingId) return NOT_IN_MEETING;
+    socket.to(socket.meetingId).emit(event, ...([{ ...d, from: socket.id }] as ServerArgs<E>));
+  }
+
+  // The whiteboard and chat are stored against the meeting, so only its
+  // participants may use them. Encrypted meetings have neither: the server
+  // would see them in clear.
+  private async checkStoredAccess(socket: AuthenticatedSocket, event: string, feature: string) {
+    const meetingId = socket.meetingId;
+    if (!meetingId) return NOT_IN_MEETING;
+    if (!(await this.registry.hasParticipant(meetingId, socket.id))) {
+      return this.reportViolation(socket, event, "sender is not a participant");
+    }
+
+    const room = await this.registry.getRoom(meetingId);
+    if (room?.e2ee) return fail("FORBIDDEN", `Encrypted meetings have no ${feature}`);
+    return meetingId;
+  }
+
+  /**
+   * Signaling aimed outside the sender's meeting is a security event: it is
+   * logged for review and the socket is dropped, which removes it from the
+   * meeting.
+   */
+  private reportViolation(socket: AuthenticatedSocket, event: string, detail: string) {
+    console.warn(
+      `[SECURITY] Blocked ${event} from ${socket.id} (user ${socket.userId}, meeting ${socket.meetingId}): ${detail}`
+    );
+    // Deferred so the ack still reaches the client
+    setImmediate(() => socket.disconnect(true));
+    return fail("FORBIDDEN", "Not allowed outside your meeting");
+  }
+
+  private async setScreenSharing(socket: AuthenticatedSocket, enabled: boolean) {
+    if (!socket.meetingId) return NOT_IN_MEETING;
+
+    console.log(`[MEDIA] Screen share ${enabled ? "ON" : "OFF"} by ${socket.userId}`);
+    socket.to(socket.meetingId).emit("user-screen-share-toggled", { socketId: socket.id, enabled });
+    await this.registry.updateParticipant(socket.meetingId, socket.id, { isScreenSharing: enabled });
+  }
+
+  private async relayMediaCall(socket: AuthenticatedSocket, call: MediaCall) {
+    if (!socket.meetingId) return NOT_IN_MEETING;
+    // The registry, not the socket, decides who is in the meeting
+    if (!(await this.registry.hasParticipant(socket.meetingId, socket.id))) {
+      return this.reportViolation(socket, call.type, "sender is not a participant");
+    }
+
+    const mediaNode = await this.registry.getMediaNode(socket.meetingId);
+    if (!mediaNode) return fail("MEETING_NOT_FOUND", "Meeting has no media node");
+
+    this.sendMediaCall(mediaNode, call);
+  }
+
+  private sendMediaCall(mediaNode: string, call: MediaCall) {
+    if (mediaNode === NODE_ID) {
+      this.handleMediaCall(call);
+    } else {
+      this.io.serverSideEmit("media-call", mediaNode, call);
+    }
+  }
+
+  private async handleMediaCall(call: MediaCall) {
+    try {
+      switch (call.type) {
+        case "join":
+          this.mediaUsers.set(call.socketId, call.userId);
+          this.mediaRouter.setLastN(call.meetingId, call.lastN);
+          this.mediaRouter.join(call.meetingId, call.socketId);
+          break;
+        case "leave":
+          this.mediaRouter.leave(call.socketId);
+          this.mediaUsers.delete(call.socketId);
+          break;
+        case "offer":
+          try {
+            const answer = await this.mediaRouter.handleOffer(call.socketId, call.offer, call.screenStreamId);
+            if (answer) {
+              this.io.to(call.socketId).emit("answer", {
+                transport: "publish",
+                answer: answer as SessionDescription,
+              });
+            }
+          } catch (err) {
+            console.error(`[RTC] Publish negotiation failed for ${call.socketId}:`, err);
+            this.io.to(call.socketId).emit("error", { message: "Failed to publish media" });
+          }
+          break;
+        case "answer":
+          this.mediaRouter.handleAnswer(call.socketId, call.answer);
+          break;
+        case "ice-candidate":
+          await this.mediaRouter.handleIceCandidate(call.socketId, call.transport, call.candidate);
+          break;
+        case "restart-transport":
+          this.mediaRouter.restartTransport(call.socketId, call.transport);
+          break;
+        case "restart-ice":
+          this.mediaRouter.restartSubscribeIce(call.socketId);
+          break;
+        case "video-size":
+          this.mediaRouter.setVideoSize(call.socketId, call.publisherId, {
+            width: call.width,
+            height: call.height,
+          });
+          break;
+        case "pin-participants":
+          this.mediaRouter.setPinned(call.socketId, call.socketIds);
+          break;
+        case "video-visibility":
+          this.mediaRouter.setVideoVisibility(call.socketId, call.hidden, call.pageHidden);
+          break;
+        case "start-recording":
+          try {
+            await this.startRecording(call.meetingId, call.userId, call.layout);
+          } catch (err) {
+            console.error(`[REC] Start failed for ${call.meetingId}:`, err);
+            this.io.to(call.socketId).emit("error", { message: "Failed to start recording" });
+          }
+          break;
+        case "stop-recording":
+          await this.stopRecording(call.meetingId);
+          break;
+      }
+    } catch (err) {
+      console.error(`[SFU] Media call ${call.type} failed:`, err);
+    }
+  }
+
+  public async getMeetingStats(meetingId: string) {
+    const room = await this.registry.getRoom(meetingId);
     if (!room) return null;
 
     console.log(`[STATS] Fetching room stats for ${meetingId}`);
+    const participants = await this.registry.getParticipants(meetingId);
     return {
       meetingId,
-      participantCount: room.participants.size,
-      participants: Array.from(room.participants.values()),
+      participantCount: participants.length,
+      participants,
     };
   }
 
+  // Narrows the host's preference to codecs every participant can decode.
+  // VP8 is mandatory for WebRTC browsers, so it is always the last resort.
+  private async getVideoCodecs(room: RegisteredRoom): Promise<VideoCodec[]> {
+    // Encrypted frames keep only VP8's payload header readable for the SFU
+    if (room.e2ee) return ["VP8"];
+
+    const receiveCodecs = await this.registry.getReceiveCodecs(room.meetingId);
+    const receivable = room.videoCodecs.filter(codec =>
+      receiveCodecs.every(codecs => codecs.includes(codec))
+    );
+    return receivable.includes("VP8") ? receivable : [...receivable, "VP8"];
+  }
+
+  // Publishers re-negotiate when someone joins or leaves who changes the set
+  private async notifyVideoCodecs(room: RegisteredRoom, previousCodecs: VideoCodec[]) {
+    const videoCodecs = await this.getVideoCodecs(room);
+    if (videoCodecs.join() === previousCodecs.join()) return;
+
+    console.log(`[RTC] Video codecs for ${room.meetingId}: ${videoCodecs.join(", ")}`);
+    this.io.to(room.meetingId).emit("video-codecs-changed", { videoCodecs });
+  }
+
+  // Runs on the media node, which holds the tracks to record
+  private async startRecording(meetingId: string, userId: string, layout: RecordingLayout) {
+    const room = await this.registry.getRoom(meetingId);
+    if (!room || room.recordingId) return;
+
+    const recordingId = uuidv4();
+    const recorder = new MeetingRecorder(
+      meetingId,
+      recordingId,
+      path.join(RECORDINGS_DIR, meetingId, recordingId),
+      socketId => this.mediaUsers.get(socketId)
+    );
+
+    await this.registry.setRecordingId(meetingId, recordingId);
+
+    try {
+      await recorder.start();
+      await Recording.create({
+        recordingId,
+        meetingId,
+        startedBy: userId,
+        layout,
+        directory: recorder.directory,
+        startedAt: recorder.startedAt,
+      });
+    } catch (err) {
+      await this.registry.setRecordingId(meetingId);
+      throw err;
+    }
+
+    this.mediaRouter.startRecording(recorder);
+    this.io.to(meetingId).emit("recording-started", {
+      recordingId,
+      startedAt: recorder.startedAt,
+    });
+  }
+
+  private async stopRecording(meetingId: string) {
+    const recorder = this.mediaRouter.stopRecording(meetingId);
+    if (!recorder) return;
+
+    this.io.to(meetingId).emit("recording-stopped", {
+      recordingId: recorder.recordingId,
+    });
+
+    try {
+      await this.registry.setRecordingId(meetingId);
+      const manifest = await recorder.stop();
+      await Recording.updateOne(
+        { recordingId: recorder.recordingId },
+        {
+          status: "queued",
+          tracks: manifest.tracks,
+          stoppedAt: manifest.stoppedAt,
+        }
+      );
+      this.recordingWorker.enqueue(recorder.recordingId);
+    } catch (err) {
+      console.error(`[REC] Finalizing ${recorder.recordingId} failed:`, err);
+    }
+  }
+
   private async getUserInfo(userId: string) {
     try {
       console.log(`[DB] Fetching user ${userId}`);
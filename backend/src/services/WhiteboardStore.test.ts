@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import { planCompaction } from "./WhiteboardStore";
+
+const sized = (...sizes: number[]) => sizes.map((size, id) => ({ id, size }));
+const ids = (batches: { id: number }[][]) => batches.map(batch => batch.map(({ id }) => id));
+
+describe("planCompaction", () => {
+  it("splits updates into runs that fit the size cap", () => {
+    expect(ids(planCompaction(sized(4, 3, 3, 5, 2, 1), 10))).toEqual([
+      [0, 1, 2],
+      [3, 4, 5],
+    ]);
+  });
+
+  it("leaves updates alone that cannot be merged with a neighbour", () => {
+    expect(ids(planCompaction(sized(2, 12, 3, 9, 4), 10))).toEqual([]);
+    expect(ids(planCompaction(sized(12, 3, 4), 10))).toEqual([[1, 2]]);
+  });
+
+  it("plans nothing for a single update", () => {
+    expect(planCompaction(sized(1), 10)).toEqual([]);
+  });
+
+  it("keeps the board intact when the batches are merged", () => {
+    const doc = new Y.Doc();
+    const updates: Uint8Array[] = [];
+    doc.on("update", (update: Uint8Array) => updates.push(update));
+    const strokes = doc.getArray<string>("strokes");
+    for (let i = 0; i < 20; i++) strokes.push([`stroke-${i}`]);
+
+    const stored = updates.map((update, id) => ({ id, update, size: update.byteLength }));
+    const batches = planCompaction(stored, stored[0].size * 3);
+    const merged = new Set(batches.flat().map(({ id }) => id));
+    const compacted = [
+      ...batches.map(batch => Y.mergeUpdates(batch.map(({ update }) => update))),
+      ...stored.filter(({ id }) => !merged.has(id)).map(({ update }) => update),
+    ];
+
+    expect(compacted.length).toBeLessThan(updates.length);
+    const loaded = new Y.Doc();
+    Y.applyUpdate(loaded, Y.mergeUpdates(compacted));
+    expect(loaded.getArray("strokes").toArray()).toEqual(strokes.toArray());
+  });
+});
@@ -0,0 +1,96 @@
+import * as Y from "yjs";
+import { WhiteboardUpdate } from "../models/WhiteboardUpdate";
+
+// Meeting whiteboards are Yjs documents edited by the clients. The server
+// never decodes a board: each update is stored as its own document when it
+// arrives, and updates are merged with Yjs when the board is loaded. Merging
+// is order-independent and idempotent, so a load that overlaps a compaction
+// still gets the whole board.
+
+// Past this many stored updates an append compacts the board
+const COMPACT_THRESHOLD = 100;
+// Upper bound for the updates merged into one, well below the 16 MB
+// document limit
+const MAX_BATCH_BYTES = 4 * 1024 * 1024;
+
+// Boards this node is compacting, so a busy board is compacted once at a time
+const compacting = new Set<string>();
+
+export const appendWhiteboardUpdate = async (meetingId: string, update: Uint8Array) => {
+  await WhiteboardUpdate.create({ meetingId, update: Buffer.from(update), size: update.byteLength });
+
+  if (compacting.has(meetingId)) return;
+  compacting.add(meetingId);
+  compactWhiteboard(meetingId)
+    .catch(err => console.error(`[WHITEBOARD] Compacting ${meetingId} failed:`, err))
+    .finally(() => compacting.delete(meetingId));
+};
+
+// The whole board as a single update, or null if nothing was ever drawn
+export const loadWhiteboard = async (meetingId: string): Promise<Uint8Array | null> => {
+  const updates = await WhiteboardUpdate.find({ meetingId }).sort({ _id: 1 });
+  if (updates.length === 0) return null;
+
+  return Y.mergeUpdates(updates.map(({ update }) => new Uint8Array(update)));
+};
+
+type StoredUpdate = { _id: unknown; size: number; version: number };
+
+// Matches the updates as long as none was rewritten since
+const unchanged = (updates: StoredUpdate[]) => ({
+  $or: updates.map(({ _id, version }) => ({ _id, version })),
+});
+
+// Splits updates, in arrival order, into runs of at least two whose sizes
+// add up to at most maxBytes
+export const planCompaction = <T extends { size: number }>(updates: T[], maxBytes: number) => {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let bytes = 0;
+
+  const close = () => {
+    if (batch.length > 1) batches.push(batch);
+    batch = [];
+    bytes = 0;
+  };
+
+  updates.forEach(update => {
+    if (bytes + update.size > maxBytes) close();
+    batch.push(update);
+    bytes += update.size;
+  });
+  close();
+
+  return batches;
+};
+
+/**
+ * Merges runs of stored updates into their first update and deletes the
+ * rest. Updates are only read, rewritten or deleted at the version they were
+ * planned with, so a node racing another never drops an update the other
+ * merged into.
+ */
+export const compactWhiteboard = async (meetingId: string) => {
+  if ((await WhiteboardUpdate.countDocuments({ meetingId })) <= COMPACT_THRESHOLD) return;
+
+  const stored: StoredUpdate[] = await WhiteboardUpdate.find({ meetingId }, { size: 1, version: 1 })
+    .sort({ _id: 1 })
+    .lean();
+
+  for (const batch of planCompaction(stored, MAX_BATCH_BYTES)) {
+    const updates = await WhiteboardUpdate.find(unchanged(batch)).sort({ _id: 1 });
+    // Part of the run was compacted elsewhere meanwhile
+    if (updates.length !== batch.length) continue;
+
+    const merged = Y.mergeUpdates(updates.map(({ update }) => new Uint8Array(update)));
+    const [first, ...rest] = batch;
+    const result = await WhiteboardUpdate.updateOne(
+      { _id: first._id, version: first.version },
+      { $set: { update: Buffer.from(merged), size: merged.byteLength }, $inc: { version: 1 } }
+    );
+    if (result.modifiedCount === 0) continue;
+
+    await WhiteboardUpdate.deleteMany(unchanged(rest));
+    console.log(`[WHITEBOARD] Compacted ${batch.length} updates of ${meetingId}`);
+  }
+};
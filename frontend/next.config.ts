@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // The signaling protocol lives in ../shared, next to the backend
+    externalDir: true,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,59 @@
+// Puts the assets of the background and noise effects under public/vendor,
+// so browsers load them from this app instead of a CDN. The WASM runtimes
+// come from the installed packages (checked against package-lock.json). The
+// segmentation model is not packaged and nothing is downloaded here, so
+// builds work offline: it is committed to public/vendor/models or placed
+// there by hand.
+
+import { access, copyFile, cp, mkdir } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+const modules = path.join(root, "node_modules");
+const vendor = path.join(root, "public", "vendor");
+
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/1/selfie_segmenter.tflite";
+
+const exists = (file) =>
+  access(file).then(
+    () => true,
+    () => false
+  );
+
+await cp(
+  path.join(modules, "@mediapipe/tasks-vision/wasm"),
+  path.join(vendor, "tasks-vision"),
+  { recursive: true }
+);
+
+const noiseSuppressor = path.join(
+  modules,
+  "@sapphi-red/web-noise-suppressor/dist"
+);
+await mkdir(path.join(vendor, "noise-suppressor", "rnnoise"), {
+  recursive: true,
+});
+for (const file of [
+  "rnnoise.wasm",
+  "rnnoise_simd.wasm",
+  "rnnoise/workletProcessor.js",
+]) {
+  await copyFile(
+    path.join(noiseSuppressor, file),
+    path.join(vendor, "noise-suppressor", file)
+  );
+}
+
+// Without the model, background effects fail to start; everything else works
+const model = path.join(vendor, "models", "selfie_segmenter.tflite");
+if (!process.env.NEXT_PUBLIC_SEGMENTER_MODEL_URL && !(await exists(model))) {
+  console.warn(
+    `Segmentation model missing: background effects will not load.\n` +
+      `Download ${MODEL_URL}\n` +
+      `to ${path.relative(root, model)}, or set NEXT_PUBLIC_SEGMENTER_MODEL_URL.`
+  );
+}
+
+console.log("Media assets copied to public/vendor");
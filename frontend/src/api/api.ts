@@ -49,7 +49,12 @@ export const authAPI = {
 
 // Meeting API functions
 export const meetingAPI = {
-  create: (data: { title: string }) => api.post("/meetings/create", data),
+  create: (data: {
+    title: string;
+    videoCodecs?: string[];
+    lastN?: number;
+    e2ee?: boolean;
+  }) => api.post("/meetings/create", data),
 
   join: (meetingId: string) => api.post(`/meetings/join/${meetingId}`),
 
@@ -58,6 +63,16 @@ export const meetingAPI = {
   end: (meetingId: string) => api.post(`/meetings/end/${meetingId}`),
 
   getUserMeetings: () => api.get("/meetings/user/meetings"),
+
+  getWhiteboard: (meetingId: string) =>
+    api.get(`/meetings/${meetingId}/whiteboard`),
+
+  getChat: (meetingId: string) => api.get(`/meetings/${meetingId}/chat`),
+};
+
+// RTC API functions
+export const rtcAPI = {
+  getIceServers: () => api.get("/rtc/ice-servers"),
 };
 
 export default api;
@@ -7,10 +7,19 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import type * as Y from "yjs";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Card,
   CardContent,
@@ -39,13 +48,36 @@ import {
   Copy,
   ExternalLink,
   Loader2,
+  Lock,
+  PenTool,
+  MessageSquare,
 } from "lucide-react";
 
 import { useGlobalState, Meeting } from "@/state/globalState";
 import { meetingAPI } from "@/api/api";
+import { Whiteboard } from "@/components/Whiteboard";
+import { ChatMessageList } from "@/components/ChatMessageList";
+import { loadBoard } from "@/services/whiteboard";
+import type { ChatMessage } from "@shared/signaling";
+
+const VIDEO_CODECS = ["VP8", "VP9", "H264", "AV1"] as const;
+
+const VIDEO_CODEC_LABELS: Record<(typeof VIDEO_CODECS)[number], string> = {
+  VP8: "VP8 (widest support)",
+  VP9: "VP9",
+  H264: "H.264 (hardware encoders)",
+  AV1: "AV1 (best for screen content)",
+};
 
 const createMeetingSchema = z.object({
   title: z.string().min(1, "Meeting title is required"),
+  videoCodec: z.enum(VIDEO_CODECS),
+  lastN: z
+    .number({ invalid_type_error: "Enter a number" })
+    .int()
+    .min(1, "At least 1 video")
+    .max(50, "At most 50 videos"),
+  e2ee: z.boolean(),
 });
 
 const joinMeetingSchema = z.object({
@@ -62,11 +94,21 @@ export default function Dashboard() {
   const [isLoadingMeetings, setIsLoadingMeetings] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isJoinDialogOpen, setIsJoinDialogOpen] = useState(false);
+  // Whiteboard of a past meeting, opened read-only
+  const [openBoard, setOpenBoard] = useState<{
+    meeting: Meeting;
+    doc: Y.Doc;
+  } | null>(null);
+  // Chat history of a meeting, as the user was allowed to see it
+  const [openChat, setOpenChat] = useState<{
+    meeting: Meeting;
+    messages: ChatMessage[];
+  } | null>(null);
   const router = useRouter();
 
   const createForm = useForm<CreateMeetingForm>({
     resolver: zodResolver(createMeetingSchema),
-    defaultValues: { title: "" },
+    defaultValues: { title: "", videoCodec: "VP8", lastN: 9, e2ee: false },
   });
 
   const joinForm = useForm<JoinMeetingForm>({
@@ -103,7 +145,16 @@ export default function Dashboard() {
   const onCreateMeeting = async (data: CreateMeetingForm) => {
     try {
       setIsLoading(true);
-      const response = await meetingAPI.create(data);
+      // The chosen codec leads; the rest are fallbacks in default order
+      const response = await meetingAPI.create({
+        title: data.title,
+        lastN: data.lastN,
+        e2ee: data.e2ee,
+        videoCodecs: [
+          data.videoCodec,
+          ...VIDEO_CODECS.filter((codec) => codec !== data.videoCodec),
+        ],
+      });
       const { meeting } = response.data;
 
       setMeetings((prev) => [meeting, ...prev]);
@@ -138,6 +189,36 @@ export default function Dashboard() {
     }
   };
 
+  const openWhiteboard = async (meeting: Meeting) => {
+    try {
+      const response = await meetingAPI.getWhiteboard(meeting.meetingId);
+      if (!response.data.update) {
+        toast.info("Nothing was drawn on this meeting's whiteboard");
+        return;
+      }
+      setOpenBoard({ meeting, doc: loadBoard(response.data.update) });
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.message || "Failed to open the whiteboard"
+      );
+    }
+  };
+
+  const openChatHistory = async (meeting: Meeting) => {
+    try {
+      const response = await meetingAPI.getChat(meeting.meetingId);
+      if (response.data.messages.length === 0) {
+        toast.info("No chat messages in this meeting");
+        return;
+      }
+      setOpenChat({ meeting, messages: response.data.messages });
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.message || "Failed to load the chat history"
+      );
+    }
+  };
+
   const copyMeetingLink = (meetingId: string) => {
     const link = `${window.location.origin}/meeting/${meetingId}`;
     navigator.clipboard.writeText(link);
@@ -251,6 +332,69 @@ export default function Dashboard() {
                     </p>
                   )}
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="videoCodec">Preferred Video Codec</Label>
+                  <Select
+                    value={
+                      createForm.watch("e2ee")
+                        ? "VP8"
+                        : createForm.watch("videoCodec")
+                    }
+                    disabled={createForm.watch("e2ee")}
+                    onValueChange={(value) =>
+                      createForm.setValue(
+                        "videoCodec",
+                        value as CreateMeetingForm["videoCodec"]
+                      )
+                    }
+                  >
+                    <SelectTrigger id="videoCodec" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VIDEO_CODECS.map((codec) => (
+                        <SelectItem key={codec} value={codec}>
+                          {VIDEO_CODEC_LABELS[codec]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="e2ee">End-to-End Encryption</Label>
+                    <Switch
+                      id="e2ee"
+                      checked={createForm.watch("e2ee")}
+                      onCheckedChange={(checked) =>
+                        createForm.setValue("e2ee", checked)
+                      }
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Media is encrypted in the browser so the server can&apos;t
+                    see it. Uses VP8 and disables recording.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lastN">Videos Shown</Label>
+                  <Input
+                    id="lastN"
+                    type="number"
+                    min={1}
+                    max={50}
+                    {...createForm.register("lastN", { valueAsNumber: true })}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Only the most recent speakers (plus anyone pinned) send
+                    video; everyone else is shown as an avatar.
+                  </p>
+                  {createForm.formState.errors.lastN && (
+                    <p className="text-sm text-red-500">
+                      {createForm.formState.errors.lastN.message}
+                    </p>
+                  )}
+                </div>
                 <div className="flex justify-end space-x-2">
                   <Button
                     type="button"
@@ -371,6 +515,12 @@ export default function Dashboard() {
                           >
                             {meeting.isActive ? "Active" : "Ended"}
                           </Badge>
+                          {meeting.e2ee && (
+                            <Badge variant="outline" className="gap-1">
+                              <Lock className="h-3 w-3" />
+                              E2EE
+                            </Badge>
+                          )}
                         </div>
 
                         <div className="flex items-center space-x-6 mt-2 text-sm text-gray-600">
@@ -407,6 +557,27 @@ export default function Dashboard() {
                           Copy Link
                         </Button>
 
+                        {!meeting.e2ee && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openWhiteboard(meeting)}
+                            >
+                              <PenTool className="h-4 w-4 mr-2" />
+                              Whiteboard
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openChatHistory(meeting)}
+                            >
+                              <MessageSquare className="h-4 w-4 mr-2" />
+                              Chat
+                            </Button>
+                          </>
+                        )}
+
                         {meeting.isActive && (
                           <Button
                             size="sm"
@@ -430,6 +601,52 @@ export default function Dashboard() {
             )}
           </CardContent>
         </Card>
+
+        <Dialog
+          open={!!openBoard}
+          onOpenChange={(open) => {
+            if (!open) setOpenBoard(null);
+          }}
+        >
+          <DialogContent className="sm:max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>{openBoard?.meeting.title} whiteboard</DialogTitle>
+              <DialogDescription>
+                The board as it was left, ready to export
+              </DialogDescription>
+            </DialogHeader>
+            {openBoard && (
+              <Whiteboard
+                doc={openBoard.doc}
+                name={openBoard.meeting.meetingId}
+                readOnly
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog
+          open={!!openChat}
+          onOpenChange={(open) => {
+            if (!open) setOpenChat(null);
+          }}
+        >
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{openChat?.meeting.title} chat</DialogTitle>
+              <DialogDescription>
+                Messages to everyone, and your direct messages
+              </DialogDescription>
+            </DialogHeader>
+            {openChat && (
+              <ChatMessageList
+                messages={openChat.messages}
+                userId={user?.id}
+                className="max-h-[60vh] pr-1"
+              />
+            )}
+          </DialogContent>
+        </Dialog>
       </main>
     </div>
   );
@@ -10,6 +10,13 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Slider } from "@/components/ui/slider";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Mic,
   MicOff,
@@ -20,17 +27,38 @@ import {
   Phone,
   PhoneOff,
   Users,
-  Settings,
+  Gauge,
   Wifi,
   WifiOff,
   Activity,
   Clock,
   Upload,
   Download,
+  LayoutGrid,
+  User,
+  Volume2,
+  VolumeX,
+  Circle,
+  Square,
+  Pin,
+  PinOff,
+  Loader2,
+  PenTool,
+  MessageSquare,
 } from "lucide-react";
 
-import { useGlobalState, Participant } from "@/state/globalState";
+import {
+  useGlobalState,
+  selectAudioOutputId,
+  Participant,
+} from "@/state/globalState";
 import { webRTCService } from "@/services/webRTCService";
+import { DeviceSettings } from "@/components/DeviceSettings";
+import { MeetingLobby } from "@/components/MeetingLobby";
+import { AnnotationOverlay } from "@/components/AnnotationOverlay";
+import { Whiteboard } from "@/components/Whiteboard";
+import { ChatPanel } from "@/components/ChatPanel";
+import { SafetyNumbers } from "@/components/SafetyNumbers";
 import { meetingAPI } from "@/api/api";
 
 interface VideoComponentProps {
@@ -38,15 +66,31 @@ interface VideoComponentProps {
   participant?: Participant;
   isLocal?: boolean;
   isMuted?: boolean;
+  isActiveSpeaker?: boolean;
+  audioLevel?: number;
+  // False when the SFU isn't forwarding this participant's video (last-N)
+  isVideoForwarded?: boolean;
+  isPinned?: boolean;
+  onTogglePin?: () => void;
 }
 
+// Normalized audio level (0..1) above which a tile shows the speaking icon
+const SPEAKING_LEVEL = 0.5;
+
 const VideoComponent: React.FC<VideoComponentProps> = ({
   stream,
   participant,
   isLocal = false,
   isMuted = false,
+  isActiveSpeaker = false,
+  audioLevel = 0,
+  isVideoForwarded = true,
+  isPinned = false,
+  onTogglePin,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const tileRef = useRef<HTMLDivElement>(null);
+  const audioOutputId = useGlobalState(selectAudioOutputId);
 
   useEffect(() => {
     if (videoRef.current && stream) {
@@ -54,6 +98,49 @@ const VideoComponent: React.FC<VideoComponentProps> = ({
     }
   }, [stream]);
 
+  // Play remote audio through the speaker picked in settings
+  useEffect(() => {
+    const video = videoRef.current;
+    if (isLocal || !video || typeof video.setSinkId !== "function") return;
+
+    video.setSinkId(audioOutputId).catch((error) => {
+      console.error("Error setting audio output:", error);
+    });
+  }, [isLocal, audioOutputId, stream]);
+
+  // Tell the SFU how large this tile is rendered so it can pick a layer
+  const socketId = participant?.socketId;
+  useEffect(() => {
+    if (isLocal || !socketId || !tileRef.current) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      webRTCService.setVideoSize(
+        socketId,
+        width * window.devicePixelRatio,
+        height * window.devicePixelRatio
+      );
+    });
+
+    observer.observe(tileRef.current);
+    return () => observer.disconnect();
+  }, [isLocal, socketId]);
+
+  // Pause this participant's video while the tile is off-screen or collapsed
+  useEffect(() => {
+    if (isLocal || !socketId || !tileRef.current) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      webRTCService.setTileVisible(socketId, entry.isIntersecting);
+    });
+
+    observer.observe(tileRef.current);
+    return () => {
+      observer.disconnect();
+      webRTCService.setTileVisible(socketId, true);
+    };
+  }, [isLocal, socketId]);
+
   const getInitials = () => {
     if (participant?.name) {
       return participant.name
@@ -66,17 +153,25 @@ const VideoComponent: React.FC<VideoComponentProps> = ({
   };
 
   return (
-    <Card className="relative overflow-hidden bg-gray-900">
-      <CardContent className="p-0 aspect-video">
-        {stream ? (
+    <Card
+      className={`relative overflow-hidden bg-gray-900 transition-shadow ${
+        isActiveSpeaker ? "ring-2 ring-green-500" : ""
+      }`}
+    >
+      <CardContent ref={tileRef} className="p-0 aspect-video">
+        {/* The video element stays mounted so audio keeps playing */}
+        {stream && (
           <video
             ref={videoRef}
             autoPlay
             playsInline
             muted={isMuted || isLocal}
-            className="w-full h-full object-cover"
+            className={`w-full h-full object-cover ${
+              isVideoForwarded ? "" : "hidden"
+            }`}
           />
-        ) : (
+        )}
+        {(!stream || !isVideoForwarded) && (
           <div className="w-full h-full flex items-center justify-center bg-gray-800">
             <Avatar className="h-16 w-16">
               <AvatarFallback className="text-lg">
@@ -86,6 +181,28 @@ const VideoComponent: React.FC<VideoComponentProps> = ({
           </div>
         )}
 
+        {participant?.isReconnecting && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/60 text-white">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="text-sm">Reconnecting...</span>
+          </div>
+        )}
+
+        {onTogglePin && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onTogglePin}
+            className="absolute top-2 right-2 h-8 w-8 p-0 text-white bg-black/40 hover:bg-black/60"
+          >
+            {isPinned ? (
+              <PinOff className="h-4 w-4" />
+            ) : (
+              <Pin className="h-4 w-4" />
+            )}
+          </Button>
+        )}
+
         {/* Overlay with participant info */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/50 to-transparent p-3">
           <div className="flex items-center justify-between text-white">
@@ -101,6 +218,10 @@ const VideoComponent: React.FC<VideoComponentProps> = ({
             </div>
 
             <div className="flex items-center space-x-1">
+              {audioLevel >= SPEAKING_LEVEL &&
+                participant?.isAudioEnabled !== false && (
+                  <Volume2 className="h-4 w-4 text-green-400" />
+                )}
               {participant?.isAudioEnabled === false && (
                 <MicOff className="h-4 w-4" />
               )}
@@ -116,6 +237,140 @@ const VideoComponent: React.FC<VideoComponentProps> = ({
   );
 };
 
+interface PresentationTileProps {
+  stream: MediaStream;
+  label: string;
+  // Participant key of the presenter, which scopes the annotations
+  presenterKey: string;
+  isLocal?: boolean;
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+}
+
+// A screen share, shown large and letterboxed so nothing is cropped. Shared
+// tab or system audio plays here, at a volume each viewer picks.
+const PresentationTile: React.FC<PresentationTileProps> = ({
+  stream,
+  label,
+  presenterKey,
+  isLocal = false,
+  volume,
+  onVolumeChange: setVolume,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioOutputId = useGlobalState(selectAudioOutputId);
+  const [hasAudio, setHasAudio] = useState(false);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+
+    // The audio track may arrive after the video in the same stream
+    const updateHasAudio = () =>
+      setHasAudio(stream.getAudioTracks().length > 0);
+    updateHasAudio();
+    stream.addEventListener("addtrack", updateHasAudio);
+    stream.addEventListener("removetrack", updateHasAudio);
+    return () => {
+      stream.removeEventListener("addtrack", updateHasAudio);
+      stream.removeEventListener("removetrack", updateHasAudio);
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume;
+    }
+  }, [volume]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (isLocal || !video || typeof video.setSinkId !== "function") return;
+
+    video.setSinkId(audioOutputId).catch((error) => {
+      console.error("Error setting audio output:", error);
+    });
+  }, [isLocal, audioOutputId, stream]);
+
+  return (
+    <Card className="relative overflow-hidden bg-black">
+      <CardContent className="p-0 aspect-video">
+        {/* Our own shared audio would echo back into the capture */}
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted={isLocal}
+          className="w-full h-full object-contain"
+        />
+        <AnnotationOverlay presenterKey={presenterKey} videoRef={videoRef} />
+        <div className="absolute top-3 left-3 flex items-center gap-2 rounded bg-black/60 px-2 py-1 text-sm text-white">
+          <Monitor className="h-4 w-4" />
+          {label}
+        </div>
+
+        {hasAudio && !isLocal && (
+          <div className="absolute bottom-3 right-3 flex w-48 items-center gap-2 rounded bg-black/60 px-2 py-1 text-white">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setVolume(volume > 0 ? 0 : 1)}
+              className="h-6 w-6 p-0 text-white hover:bg-white/20 hover:text-white"
+            >
+              {volume > 0 ? (
+                <Volume2 className="h-4 w-4" />
+              ) : (
+                <VolumeX className="h-4 w-4" />
+              )}
+            </Button>
+            <Slider
+              min={0}
+              max={100}
+              value={[Math.round(volume * 100)]}
+              onValueChange={([value]) => setVolume(value / 100)}
+              aria-label="Presentation volume"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Keeps the audio of a remote screen share playing while it is not on the
+// stage, behind the whiteboard or another presentation
+const PresentationAudio: React.FC<{ stream: MediaStream; volume: number }> = ({
+  stream,
+  volume,
+}) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const audioOutputId = useGlobalState(selectAudioOutputId);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.volume = volume;
+    }
+  }, [volume]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || typeof audio.setSinkId !== "function") return;
+
+    audio.setSinkId(audioOutputId).catch((error) => {
+      console.error("Error setting audio output:", error);
+    });
+  }, [audioOutputId, stream]);
+
+  return <audio ref={audioRef} autoPlay />;
+};
+
 export default function MeetingRoom() {
   const params = useParams();
   const router = useRouter();
@@ -129,19 +384,42 @@ export default function MeetingRoom() {
     currentMeeting,
     participants,
     localStream,
+    localScreenStream,
     isAudioEnabled,
     isVideoEnabled,
     isScreenSharing,
     connectionStats,
     isHost,
+    activeSpeaker,
+    audioLevels,
+    isRecording,
+    pinnedParticipants,
+    forwardedVideo,
+    isReconnecting,
+    chatMessages,
     setCurrentMeeting,
   } = useGlobalState();
 
   const [isConnecting, setIsConnecting] = useState(true);
+  // Until then the lobby is shown with a local preview
+  const [hasJoined, setHasJoined] = useState(false);
+  const [isJoining, setIsJoining] = useState(false);
   const [connectionQuality, setConnectionQuality] = useState<
     "excellent" | "good" | "fair" | "poor"
   >("excellent");
   const [showStats, setShowStats] = useState(false);
+  const [layout, setLayout] = useState<"grid" | "speaker">("grid");
+  const [showWhiteboard, setShowWhiteboard] = useState(false);
+  // Presentation on the stage when several people share at once
+  const [selectedPresenter, setSelectedPresenter] = useState<string | null>(
+    null
+  );
+  const [presentationVolumes, setPresentationVolumes] = useState<
+    Record<string, number>
+  >({});
+  const [showChat, setShowChat] = useState(false);
+  // Messages seen while the chat was open; the rest count as unread
+  const [readCount, setReadCount] = useState(0);
   const [avgLatency, setAvgLatency] = useState(0);
   const [totalBandwidth, setTotalBandwidth] = useState({ up: 0, down: 0 });
 
@@ -201,37 +479,63 @@ export default function MeetingRoom() {
     }
   }, [connectionStats]);
 
+  // Everything that arrives while the chat is open counts as read
+  useEffect(() => {
+    if (showChat) setReadCount(chatMessages.length);
+  }, [showChat, chatMessages.length]);
+
+  const handleMeetingError = (error: any) => {
+    console.error("Meeting initialization error:", error);
+
+    // Check if it's an auth error
+    if (error.response?.status === 401) {
+      toast.error("Authentication failed. Please login again.");
+      router.push("/auth");
+    } else {
+      toast.error(
+        error.response?.data?.message ||
+          error.message ||
+          "Failed to join meeting"
+      );
+      router.push("/dashboard");
+    }
+  };
+
+  // Load the meeting and start the camera preview for the lobby
   const initializeMeeting = async () => {
     try {
       setIsConnecting(true);
+      setHasJoined(false);
 
       // Join meeting via API
       const response = await meetingAPI.join(meetingId);
       setCurrentMeeting(response.data.meeting);
 
-      // Connect to WebRTC service
-      await webRTCService.connect(token!);
-
       // Get user media
       await webRTCService.getUserMedia(true, true);
+    } catch (error: any) {
+      handleMeetingError(error);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    try {
+      setIsJoining(true);
+
+      // Connect to WebRTC service
+      await webRTCService.connect(token!);
 
-      // Join meeting room
+      // Join meeting room with the mic and camera state picked in the lobby
       await webRTCService.joinMeeting(meetingId);
 
+      setHasJoined(true);
       toast.success("Successfully joined the meeting!");
     } catch (error: any) {
-      console.error("Meeting initialization error:", error);
-
-      // Check if it's an auth error
-      if (error.response?.status === 401) {
-        toast.error("Authentication failed. Please login again.");
-        router.push("/auth");
-      } else {
-        toast.error(error.response?.data?.message || "Failed to join meeting");
-        router.push("/dashboard");
-      }
+      handleMeetingError(error);
     } finally {
-      setIsConnecting(false);
+      setIsJoining(false);
     }
   };
 
@@ -243,14 +547,25 @@ export default function MeetingRoom() {
     webRTCService.toggleVideo();
   };
 
-  const handleToggleScreenShare = async () => {
+  const handleToggleScreenShare = async (withAudio = false) => {
     try {
-      await webRTCService.toggleScreenShare();
+      await webRTCService.toggleScreenShare({ withAudio });
+
+      const { localScreenStream } = useGlobalState.getState();
+      if (withAudio && localScreenStream?.getAudioTracks().length === 0) {
+        toast.info(
+          "No audio is being shared. Pick a tab, or allow audio in the browser's share dialog."
+        );
+      }
     } catch (error) {
       toast.error("Failed to toggle screen share");
     }
   };
 
+  const handleToggleRecording = () => {
+    webRTCService.toggleRecording(layout);
+  };
+
   const handleLeaveMeeting = () => {
     webRTCService.leaveMeeting();
     router.push("/dashboard");
@@ -307,16 +622,104 @@ export default function MeetingRoom() {
       <div className="min-h-screen flex items-center justify-center bg-gray-900">
         <div className="text-center text-white">
           <Video className="h-16 w-16 mx-auto mb-4 animate-pulse" />
-          <h2 className="text-xl font-semibold mb-2">Joining Meeting...</h2>
-          <p className="text-gray-400">Please wait while we connect you</p>
+          <h2 className="text-xl font-semibold mb-2">Getting ready...</h2>
+          <p className="text-gray-400">Starting your camera and microphone</p>
         </div>
       </div>
     );
   }
 
+  if (!hasJoined) {
+    return (
+      <MeetingLobby
+        title={currentMeeting?.title}
+        isJoining={isJoining}
+        onJoin={handleJoin}
+        onCancel={handleLeaveMeeting}
+      />
+    );
+  }
+
   const participantArray = Array.from(participants.values());
   const totalParticipants = participantArray.length + 1; // +1 for local user
 
+  const renderTile = (socketId: string) =>
+    socketId === "local" ? (
+      <VideoComponent
+        key="local"
+        stream={localStream || undefined}
+        participant={{
+          id: user?.id || "",
+          name: user?.name || "",
+          email: user?.email || "",
+          socketId: "local",
+          isAudioEnabled: isAudioEnabled,
+          isVideoEnabled: isVideoEnabled,
+          isScreenSharing: isScreenSharing,
+          isReconnecting: isReconnecting,
+        }}
+        isLocal={true}
+        isMuted={true}
+        isActiveSpeaker={activeSpeaker === "local"}
+        audioLevel={audioLevels.local}
+      />
+    ) : (
+      <VideoComponent
+        key={socketId}
+        stream={participants.get(socketId)?.stream}
+        participant={participants.get(socketId)}
+        isActiveSpeaker={activeSpeaker === socketId}
+        audioLevel={audioLevels[socketId]}
+        isVideoForwarded={!forwardedVideo || forwardedVideo.includes(socketId)}
+        isPinned={pinnedParticipants.includes(socketId)}
+        onTogglePin={() => webRTCService.togglePin(socketId)}
+      />
+    );
+
+  // Speaker view features the dominant speaker, falling back to the first
+  // remote participant until someone talks
+  const featuredSocketId =
+    activeSpeaker &&
+    (activeSpeaker === "local" || participants.has(activeSpeaker))
+      ? activeSpeaker
+      : participantArray[0]?.socketId || "local";
+  const tileSocketIds = [
+    "local",
+    ...participantArray.map((participant) => participant.socketId),
+  ];
+
+  // A screen share takes over the stage, with the cameras beside it and
+  // the presenter's first. With several, the viewer picks which one.
+  const presentations = [
+    ...participantArray
+      .filter((participant) => participant.screenStream)
+      .map((participant) => ({
+        stream: participant.screenStream!,
+        name: participant.name || "Unknown",
+        label: `${participant.name || "Unknown"} is presenting`,
+        socketId: participant.socketId,
+        isLocal: false,
+      })),
+    ...(localScreenStream
+      ? [
+          {
+            stream: localScreenStream,
+            name: "You",
+            label: "You are presenting",
+            socketId: "local",
+            isLocal: true,
+          },
+        ]
+      : []),
+  ];
+  const presentation =
+    presentations.find(
+      (candidate) => candidate.socketId === selectedPresenter
+    ) || presentations[0];
+  const volumeOf = (socketId: string) => presentationVolumes[socketId] ?? 1;
+  const setVolumeOf = (socketId: string) => (volume: number) =>
+    setPresentationVolumes((volumes) => ({ ...volumes, [socketId]: volume }));
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       {/* Header */}
@@ -327,15 +730,31 @@ export default function MeetingRoom() {
               {currentMeeting?.title || "Meeting"}
             </h1>
             <Badge variant="secondary">{currentMeeting?.meetingId}</Badge>
+            {currentMeeting?.e2ee && <SafetyNumbers />}
+            {isRecording && (
+              <Badge variant="destructive" className="flex items-center gap-1">
+                <Circle className="h-2 w-2 fill-current animate-pulse" />
+                REC
+              </Badge>
+            )}
           </div>
 
           <div className="flex items-center space-x-4">
             {/* Connection Status */}
             <div className="flex items-center space-x-2">
-              {getConnectionIcon()}
-              <span className={`text-sm ${getConnectionColor()}`}>
-                {connectionQuality}
-              </span>
+              {isReconnecting ? (
+                <>
+                  <Loader2 className="h-4 w-4 text-yellow-500 animate-spin" />
+                  <span className="text-sm text-yellow-500">reconnecting</span>
+                </>
+              ) : (
+                <>
+                  {getConnectionIcon()}
+                  <span className={`text-sm ${getConnectionColor()}`}>
+                    {connectionQuality}
+                  </span>
+                </>
+              )}
             </div>
 
             {/* Participants Count */}
@@ -344,6 +763,22 @@ export default function MeetingRoom() {
               <span className="text-sm">{totalParticipants}</span>
             </div>
 
+            {/* Layout Toggle */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setLayout(layout === "grid" ? "speaker" : "grid")
+              }
+              className="text-gray-300 hover:text-white"
+            >
+              {layout === "grid" ? (
+                <User className="h-4 w-4" />
+              ) : (
+                <LayoutGrid className="h-4 w-4" />
+              )}
+            </Button>
+
             {/* Stats Toggle */}
             <Button
               variant="ghost"
@@ -353,6 +788,9 @@ export default function MeetingRoom() {
             >
               <Activity className="h-4 w-4" />
             </Button>
+
+            {/* Device Settings */}
+            <DeviceSettings />
           </div>
         </div>
 
@@ -372,54 +810,132 @@ export default function MeetingRoom() {
               <span>Down: {formatBytes(totalBandwidth.down)}/s</span>
             </div>
             <div className="flex items-center space-x-2">
-              <Settings className="h-4 w-4 text-gray-400" />
+              <Gauge className="h-4 w-4 text-gray-400" />
               <span>Quality: {connectionQuality}</span>
             </div>
           </div>
         )}
       </header>
 
-      {/* Video Grid */}
-      <main className="flex-1 p-6">
-        <div
-          className={`grid gap-4 h-full ${
-            totalParticipants === 1
-              ? "grid-cols-1"
-              : totalParticipants === 2
-              ? "grid-cols-2"
-              : totalParticipants <= 4
-              ? "grid-cols-2 grid-rows-2"
-              : totalParticipants <= 6
-              ? "grid-cols-3 grid-rows-2"
-              : "grid-cols-4 grid-rows-2"
-          }`}
-        >
-          {/* Local Video */}
-          <VideoComponent
-            stream={localStream || undefined}
-            participant={{
-              id: user?.id || "",
-              name: user?.name || "",
-              email: user?.email || "",
-              socketId: "local",
-              isAudioEnabled: isAudioEnabled,
-              isVideoEnabled: isVideoEnabled,
-              isScreenSharing: isScreenSharing,
-            }}
-            isLocal={true}
-            isMuted={true}
-          />
+      <div className="flex">
+        {/* Video Grid */}
+        <main className="flex-1 min-w-0 p-6">
+          {showWhiteboard ? (
+            <div className="flex flex-col lg:flex-row gap-4 h-full">
+              <div className="flex-1 min-w-0">
+                <Whiteboard
+                  doc={webRTCService.getWhiteboard()}
+                  name={meetingId}
+                />
+              </div>
+              <div className="flex lg:flex-col gap-4 overflow-auto lg:w-64 shrink-0">
+                {tileSocketIds.map((socketId) => (
+                  <div key={socketId} className="w-48 lg:w-full shrink-0">
+                    {renderTile(socketId)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : presentation ? (
+            <div className="flex flex-col lg:flex-row gap-4 h-full">
+              <div className="flex-1 min-w-0 space-y-2">
+                {presentations.length > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {presentations.map((candidate) => (
+                      <Button
+                        key={candidate.socketId}
+                        size="sm"
+                        variant={
+                          candidate.socketId === presentation.socketId
+                            ? "secondary"
+                            : "outline"
+                        }
+                        onClick={() => setSelectedPresenter(candidate.socketId)}
+                        className="flex items-center gap-2"
+                      >
+                        <Monitor className="h-4 w-4" />
+                        {candidate.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                <PresentationTile
+                  key={presentation.socketId}
+                  stream={presentation.stream}
+                  label={presentation.label}
+                  presenterKey={presentation.socketId}
+                  isLocal={presentation.isLocal}
+                  volume={volumeOf(presentation.socketId)}
+                  onVolumeChange={setVolumeOf(presentation.socketId)}
+                />
+              </div>
+              <div className="flex lg:flex-col gap-4 overflow-auto lg:w-64 shrink-0">
+                {[
+                  presentation.socketId,
+                  ...tileSocketIds.filter(
+                    (socketId) => socketId !== presentation.socketId
+                  ),
+                ].map((socketId) => (
+                  <div key={socketId} className="w-48 lg:w-full shrink-0">
+                    {renderTile(socketId)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : layout === "speaker" ? (
+            <div className="flex flex-col gap-4 h-full">
+              <div className="w-full max-w-5xl mx-auto">
+                {renderTile(featuredSocketId)}
+              </div>
+              <div className="flex gap-4 overflow-x-auto">
+                {tileSocketIds
+                  .filter((socketId) => socketId !== featuredSocketId)
+                  .map((socketId) => (
+                    <div key={socketId} className="w-48 shrink-0">
+                      {renderTile(socketId)}
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ) : (
+            <div
+              className={`grid gap-4 h-full ${
+                totalParticipants === 1
+                  ? "grid-cols-1"
+                  : totalParticipants === 2
+                  ? "grid-cols-2"
+                  : totalParticipants <= 4
+                  ? "grid-cols-2 grid-rows-2"
+                  : totalParticipants <= 6
+                  ? "grid-cols-3 grid-rows-2"
+                  : "grid-cols-4 grid-rows-2"
+              }`}
+            >
+              {tileSocketIds.map(renderTile)}
+            </div>
+          )}
+        </main>
 
-          {/* Remote Videos */}
-          {participantArray.map((participant) => (
-            <VideoComponent
-              key={participant.socketId}
-              stream={participant.stream}
-              participant={participant}
+        {presentations
+          .filter(
+            (candidate) =>
+              !candidate.isLocal &&
+              (showWhiteboard || candidate !== presentation)
+          )
+          .map((candidate) => (
+            <PresentationAudio
+              key={candidate.socketId}
+              stream={candidate.stream}
+              volume={volumeOf(candidate.socketId)}
             />
           ))}
-        </div>
-      </main>
+
+        {showChat && (
+          <aside className="w-80 shrink-0 h-[calc(100vh-9rem)] bg-gray-800 border-l border-gray-700 p-4">
+            <ChatPanel />
+          </aside>
+        )}
+      </div>
 
       {/* Controls */}
       <footer className="bg-gray-800 border-t border-gray-700 px-6 py-4">
@@ -450,18 +966,87 @@ export default function MeetingRoom() {
             )}
           </Button>
 
-          <Button
-            variant={isScreenSharing ? "secondary" : "outline"}
-            size="lg"
-            onClick={handleToggleScreenShare}
-            className="rounded-full w-12 h-12"
-          >
-            {isScreenSharing ? (
+          {isScreenSharing ? (
+            <Button
+              variant="secondary"
+              size="lg"
+              onClick={() => handleToggleScreenShare()}
+              className="rounded-full w-12 h-12"
+            >
               <MonitorOff className="h-5 w-5" />
-            ) : (
-              <Monitor className="h-5 w-5" />
-            )}
-          </Button>
+            </Button>
+          ) : (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="lg"
+                  className="rounded-full w-12 h-12"
+                >
+                  <Monitor className="h-5 w-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent side="top">
+                <DropdownMenuItem onSelect={() => handleToggleScreenShare()}>
+                  <Monitor className="h-4 w-4" />
+                  Share screen
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => handleToggleScreenShare(true)}
+                >
+                  <Volume2 className="h-4 w-4" />
+                  Share screen with audio
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {/* The server would see the board and chat, so encrypted meetings
+              have neither */}
+          {!currentMeeting?.e2ee && (
+            <Button
+              variant={showWhiteboard ? "secondary" : "outline"}
+              size="lg"
+              onClick={() => setShowWhiteboard(!showWhiteboard)}
+              className="rounded-full w-12 h-12"
+            >
+              <PenTool className="h-5 w-5" />
+            </Button>
+          )}
+
+          {!currentMeeting?.e2ee && (
+            <Button
+              variant={showChat ? "secondary" : "outline"}
+              size="lg"
+              onClick={() => setShowChat(!showChat)}
+              className="relative rounded-full w-12 h-12"
+            >
+              <MessageSquare className="h-5 w-5" />
+              {!showChat && chatMessages.length > readCount && (
+                <Badge
+                  variant="destructive"
+                  className="absolute -top-1 -right-1 h-5 min-w-5 px-1"
+                >
+                  {chatMessages.length - readCount}
+                </Badge>
+              )}
+            </Button>
+          )}
+
+          {isHost && !currentMeeting?.e2ee && (
+            <Button
+              variant={isRecording ? "destructive" : "outline"}
+              size="lg"
+              onClick={handleToggleRecording}
+              className="rounded-full w-12 h-12"
+            >
+              {isRecording ? (
+                <Square className="h-5 w-5" />
+              ) : (
+                <Circle className="h-5 w-5" />
+              )}
+            </Button>
+          )}
 
           <Separator orientation="vertical" className="h-8" />
 
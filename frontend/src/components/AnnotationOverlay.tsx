@@ -0,0 +1,303 @@
+"use client";
+
+import { RefObject, useEffect, useRef, useState } from "react";
+import {
+  Eraser,
+  Highlighter,
+  MousePointer2,
+  Pencil,
+  Radio,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+import { webRTCService } from "@/services/webRTCService";
+import { annotationStore } from "@/services/annotationStore";
+import type { AnnotationPoint } from "@shared/signaling";
+
+type Tool = "none" | "pen" | "highlighter" | "laser";
+
+// Each author draws in their own color, the same on every screen
+const COLORS = [
+  "#ef4444",
+  "#f59e0b",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#a855f7",
+  "#ec4899",
+  "#f97316",
+];
+
+// Strokes are batched so a fast drag isn't one message per mouse event
+const SEND_INTERVAL_MS = 40;
+// A laser pointer that stops moving fades out after this long
+const POINTER_TIMEOUT_MS = 3000;
+
+const colorFor = (socketId: string) => {
+  let hash = 0;
+  for (let i = 0; i < socketId.length; i++) {
+    hash = (hash * 31 + socketId.charCodeAt(i)) | 0;
+  }
+  return COLORS[Math.abs(hash) % COLORS.length];
+};
+
+// Where the letterboxed video frame sits inside the element, in CSS pixels
+const getFrameRect = (video: HTMLVideoElement) => {
+  const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) {
+    return { x: 0, y: 0, width: clientWidth, height: clientHeight };
+  }
+
+  const scale = Math.min(clientWidth / videoWidth, clientHeight / videoHeight);
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  return {
+    x: (clientWidth - width) / 2,
+    y: (clientHeight - height) / 2,
+    width,
+    height,
+  };
+};
+
+interface AnnotationOverlayProps {
+  // Participant key of the presenter ("local" for our own share)
+  presenterKey: string;
+  videoRef: RefObject<HTMLVideoElement | null>;
+}
+
+// Pen, highlighter and laser pointer over a screen share, drawn for everyone
+// in the meeting
+export function AnnotationOverlay({
+  presenterKey,
+  videoRef,
+}: AnnotationOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<Tool>("none");
+
+  // Stroke being drawn and the points not sent yet
+  const strokeRef = useRef<{ id: string; pending: AnnotationPoint[] } | null>(
+    null
+  );
+  const lastSendRef = useRef(0);
+
+  // Redrawn on every change, and each frame while a pointer is showing so
+  // it can fade out
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    const context = canvas.getContext("2d")!;
+    let dirty = true;
+    let frame = 0;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio;
+      const width = video.clientWidth * ratio;
+      const height = video.clientHeight * ratio;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      const frameRect = getFrameRect(video);
+      const toCanvas = ([x, y]: AnnotationPoint): [number, number] => [
+        (frameRect.x + x * frameRect.width) * ratio,
+        (frameRect.y + y * frameRect.height) * ratio,
+      ];
+
+      context.clearRect(0, 0, width, height);
+      context.lineCap = "round";
+      context.lineJoin = "round";
+
+      const board = annotationStore.getBoard(presenterKey);
+      board.strokes.forEach((stroke) => {
+        const isHighlighter = stroke.tool === "highlighter";
+        context.strokeStyle = colorFor(stroke.from);
+        context.globalAlpha = isHighlighter ? 0.35 : 1;
+        context.lineWidth = (isHighlighter ? 18 : 3) * ratio;
+
+        context.beginPath();
+        stroke.points.forEach((point, i) => {
+          const [x, y] = toCanvas(point);
+          if (i === 0) {
+            context.moveTo(x, y);
+          } else {
+            context.lineTo(x, y);
+          }
+        });
+        // A single click still leaves a dot
+        if (stroke.points.length === 1) {
+          const [x, y] = toCanvas(stroke.points[0]);
+          context.lineTo(x + 0.1, y);
+        }
+        context.stroke();
+      });
+
+      const now = Date.now();
+      let isFading = false;
+      board.pointers.forEach((pointer) => {
+        const age = now - pointer.updatedAt;
+        if (age > POINTER_TIMEOUT_MS) return;
+        isFading = true;
+
+        const [x, y] = toCanvas(pointer.point);
+        context.globalAlpha = 1 - age / POINTER_TIMEOUT_MS;
+        context.fillStyle = colorFor(pointer.from);
+        context.shadowColor = context.fillStyle;
+        context.shadowBlur = 12 * ratio;
+        context.beginPath();
+        context.arc(x, y, 6 * ratio, 0, Math.PI * 2);
+        context.fill();
+        context.shadowBlur = 0;
+      });
+      context.globalAlpha = 1;
+
+      return isFading;
+    };
+
+    const loop = () => {
+      if (dirty) dirty = draw();
+      frame = requestAnimationFrame(loop);
+    };
+    loop();
+
+    const markDirty = () => {
+      dirty = true;
+    };
+    const unsubscribe = annotationStore.subscribe(presenterKey, markDirty);
+    const observer = new ResizeObserver(markDirty);
+    observer.observe(video);
+    video.addEventListener("resize", markDirty);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      unsubscribe();
+      observer.disconnect();
+      video.removeEventListener("resize", markDirty);
+    };
+  }, [presenterKey, videoRef]);
+
+  // Pointer position as a fraction of the shared frame, null outside it
+  const toPoint = (event: React.PointerEvent): AnnotationPoint | null => {
+    const video = videoRef.current;
+    if (!video) return null;
+
+    const bounds = video.getBoundingClientRect();
+    const frameRect = getFrameRect(video);
+    const x = (event.clientX - bounds.left - frameRect.x) / frameRect.width;
+    const y = (event.clientY - bounds.top - frameRect.y) / frameRect.height;
+    if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+    return [x, y];
+  };
+
+  const flushStroke = (force: boolean) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.pending.length === 0) return;
+    if (tool !== "pen" && tool !== "highlighter") return;
+    if (!force && Date.now() - lastSendRef.current < SEND_INTERVAL_MS) return;
+
+    lastSendRef.current = Date.now();
+    webRTCService.drawAnnotation(
+      presenterKey,
+      stroke.id,
+      tool,
+      stroke.pending
+    );
+    stroke.pending = [];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (tool !== "pen" && tool !== "highlighter") return;
+
+    const point = toPoint(event);
+    if (!point) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    strokeRef.current = { id: crypto.randomUUID(), pending: [point] };
+    flushStroke(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const point = toPoint(event);
+
+    if (tool === "laser") {
+      if (Date.now() - lastSendRef.current < SEND_INTERVAL_MS) return;
+      lastSendRef.current = Date.now();
+      webRTCService.pointAnnotation(presenterKey, point);
+      return;
+    }
+
+    if (strokeRef.current && point) {
+      strokeRef.current.pending.push(point);
+      flushStroke(false);
+    }
+  };
+
+  const handlePointerUp = () => {
+    flushStroke(true);
+    strokeRef.current = null;
+  };
+
+  const handlePointerLeave = () => {
+    if (tool === "laser") {
+      webRTCService.pointAnnotation(presenterKey, null);
+    }
+  };
+
+  const handleToolChange = (value: string) => {
+    if (tool === "laser") {
+      webRTCService.pointAnnotation(presenterKey, null);
+    }
+    setTool((value || "none") as Tool);
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+        className={`absolute inset-0 h-full w-full touch-none ${
+          tool === "none" ? "pointer-events-none" : "cursor-crosshair"
+        }`}
+      />
+
+      <div className="absolute top-3 right-3 flex items-center gap-1 rounded bg-black/60 p-1 text-white">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={tool}
+          onValueChange={handleToolChange}
+        >
+          <ToggleGroupItem value="none" aria-label="Stop annotating">
+            <MousePointer2 className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="pen" aria-label="Pen">
+            <Pencil className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="highlighter" aria-label="Highlighter">
+            <Highlighter className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="laser" aria-label="Laser pointer">
+            <Radio className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => webRTCService.clearAnnotations(presenterKey)}
+          className="h-8 w-8 p-0 text-white hover:bg-white/20 hover:text-white"
+          aria-label="Clear all annotations"
+        >
+          <Eraser className="h-4 w-4" />
+        </Button>
+      </div>
+    </>
+  );
+}
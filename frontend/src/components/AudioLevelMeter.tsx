@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// Speech rarely goes above a quarter of full scale
+const METER_GAIN = 4;
+
+interface AudioLevelMeterProps {
+  stream: MediaStream | null;
+}
+
+// Live microphone level, drawn straight to the DOM every animation frame
+export function AudioLevelMeter({ stream }: AudioLevelMeterProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!track) return;
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    const update = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(
+        samples.reduce((sum, sample) => sum + sample * sample, 0) /
+          samples.length
+      );
+      if (barRef.current) {
+        barRef.current.style.width = `${Math.min(1, rms * METER_GAIN) * 100}%`;
+      }
+      frame = requestAnimationFrame(update);
+    };
+    update();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className="h-2 w-full overflow-hidden rounded-full bg-gray-700">
+      <div
+        ref={barRef}
+        className="h-full w-0 rounded-full bg-green-500 transition-[width] duration-75"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { Ban, Droplet, Image as ImageIcon, Loader2 } from "lucide-react";
+
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+import { useGlobalState } from "@/state/globalState";
+import { webRTCService } from "@/services/webRTCService";
+import type { BackgroundEffect } from "@/services/backgroundProcessor";
+
+// Background blur or a picture behind the camera, for the lobby and the
+// meeting room's settings dialog
+export function BackgroundPicker() {
+  const { backgroundEffect, localStream } = useGlobalState();
+  const [isApplying, setIsApplying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyEffect = async (effect: BackgroundEffect) => {
+    try {
+      setIsApplying(true);
+      await webRTCService.setBackgroundEffect(effect);
+    } catch (error) {
+      console.error("Error applying background effect:", error);
+      toast.error("Could not change the background");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleValueChange = (value: string) => {
+    if (value === "image") {
+      fileInputRef.current?.click();
+    } else if (value === "none" || value === "blur") {
+      applyEffect({ type: value });
+    }
+  };
+
+  const handleImageSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (backgroundEffect.type === "image") {
+      URL.revokeObjectURL(backgroundEffect.imageUrl);
+    }
+    applyEffect({ type: "image", imageUrl: URL.createObjectURL(file) });
+  };
+
+  const hasCamera = !!localStream?.getVideoTracks().length;
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        Background
+        {isApplying && <Loader2 className="h-3 w-3 animate-spin" />}
+      </Label>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={backgroundEffect.type}
+        onValueChange={handleValueChange}
+        disabled={isApplying || !hasCamera}
+        className="w-full"
+      >
+        <ToggleGroupItem value="none">
+          <Ban className="h-4 w-4" />
+          None
+        </ToggleGroupItem>
+        <ToggleGroupItem value="blur">
+          <Droplet className="h-4 w-4" />
+          Blur
+        </ToggleGroupItem>
+        <ToggleGroupItem value="image">
+          <ImageIcon className="h-4 w-4" />
+          Image
+        </ToggleGroupItem>
+      </ToggleGroup>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={handleImageSelected}
+      />
+    </div>
+  );
+}
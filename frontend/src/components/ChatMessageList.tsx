@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import Markdown from "react-markdown";
+import { format } from "date-fns";
+
+import type { ChatMessage, ChatParticipant } from "@shared/signaling";
+
+interface ChatMessageListProps {
+  messages: ChatMessage[];
+  // User id of the reader, whose messages are labelled "You"
+  userId?: string;
+  className?: string;
+}
+
+// Chat messages with their markdown rendered. Raw HTML is dropped and
+// unsafe link protocols are stripped by react-markdown, so nothing a sender
+// writes can run script; images are left out so they can't track readers.
+export function ChatMessageList({
+  messages,
+  userId,
+  className = "",
+}: ChatMessageListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow the conversation as messages arrive
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages.length]);
+
+  const nameOf = (participant: ChatParticipant) =>
+    participant.userId === userId ? "You" : participant.name || "Unknown";
+
+  return (
+    <div ref={listRef} className={`space-y-3 overflow-y-auto ${className}`}>
+      {messages.map((message) => (
+        <div
+          key={message.id}
+          className={`rounded-lg px-3 py-2 ${
+            message.to ? "bg-purple-500/15" : "bg-gray-500/15"
+          }`}
+        >
+          <div className="flex items-baseline justify-between gap-2 text-xs opacity-70">
+            <span className="font-medium truncate">
+              {nameOf(message.from)}
+              {message.to && ` → ${nameOf(message.to)} (direct)`}
+            </span>
+            <span className="shrink-0">
+              {format(new Date(message.sentAt), "HH:mm")}
+            </span>
+          </div>
+          <div className="mt-1 text-sm break-words [&_a]:underline [&_blockquote]:border-l-2 [&_blockquote]:pl-2 [&_code]:rounded [&_code]:bg-gray-500/20 [&_code]:px-1 [&_ol]:list-decimal [&_ol]:pl-5 [&_pre]:overflow-x-auto [&_ul]:list-disc [&_ul]:pl-5">
+            <Markdown
+              skipHtml
+              disallowedElements={["img"]}
+              unwrapDisallowed
+              components={{
+                a: ({ node: _node, ...props }) => (
+                  <a {...props} target="_blank" rel="noopener noreferrer" />
+                ),
+              }}
+            >
+              {message.text}
+            </Markdown>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
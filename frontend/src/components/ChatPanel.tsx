@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Send } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { useGlobalState } from "@/state/globalState";
+import { webRTCService } from "@/services/webRTCService";
+import { ChatMessageList } from "@/components/ChatMessageList";
+
+const EVERYONE = "everyone";
+
+// Must match the limit of the chat-message event
+const MAX_LENGTH = 4000;
+
+// Meeting chat: the backlog, and a composer that sends to everyone or as a
+// direct message to one participant
+export function ChatPanel() {
+  const { user, participants, chatMessages } = useGlobalState();
+  const [text, setText] = useState("");
+  const [recipient, setRecipient] = useState(EVERYONE);
+  const [isSending, setIsSending] = useState(false);
+
+  // Falls back to everyone when the recipient leaves
+  const to = participants.has(recipient) ? recipient : EVERYONE;
+
+  const handleSend = async () => {
+    if (!text.trim() || isSending) return;
+
+    setIsSending(true);
+    const sent = await webRTCService.sendChatMessage(
+      text,
+      to === EVERYONE ? undefined : to
+    );
+    setIsSending(false);
+
+    if (sent) {
+      setText("");
+    } else {
+      toast.error("Message could not be sent");
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Shift+Enter starts a new line
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <ChatMessageList
+        messages={chatMessages}
+        userId={user?.id}
+        className="flex-1 min-h-0"
+      />
+
+      <Select value={to} onValueChange={setRecipient}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={EVERYONE}>Everyone</SelectItem>
+          {Array.from(participants.values()).map((participant) => (
+            <SelectItem key={participant.socketId} value={participant.socketId}>
+              {participant.name || "Unknown"} (direct)
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          onKeyDown={handleKeyDown}
+          maxLength={MAX_LENGTH}
+          placeholder="Message (markdown supported)"
+          className="max-h-40 resize-none"
+        />
+        <Button
+          size="sm"
+          onClick={handleSend}
+          disabled={!text.trim() || isSending}
+          aria-label="Send message"
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Settings } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import {
+  useGlobalState,
+  selectAudioOutputId,
+  DeviceKind,
+} from "@/state/globalState";
+import { webRTCService } from "@/services/webRTCService";
+import { BackgroundPicker } from "@/components/BackgroundPicker";
+import { NoiseSuppressionSettings } from "@/components/NoiseSuppressionSettings";
+
+const DEVICE_LABELS: Record<DeviceKind, string> = {
+  videoinput: "Camera",
+  audioinput: "Microphone",
+  audiooutput: "Speaker",
+};
+
+// Firefox and older Safari can't route audio to another output
+const canSelectSpeaker = () =>
+  typeof HTMLMediaElement !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
+
+// Camera, microphone and speaker pickers, shown in the lobby and the
+// meeting room's settings dialog
+export function DevicePickers() {
+  const { mediaDevices, localStream } = useGlobalState();
+  const audioOutputId = useGlobalState(selectAudioOutputId);
+  const [speakerSupported, setSpeakerSupported] = useState(false);
+
+  useEffect(() => {
+    setSpeakerSupported(canSelectSpeaker());
+  }, []);
+
+  // The device actually in use, which can differ from the saved one
+  const getCurrentDeviceId = (kind: DeviceKind) => {
+    if (kind === "audiooutput") {
+      return audioOutputId || "default";
+    }
+
+    const track = localStream
+      ?.getTracks()
+      .find(
+        (track) => track.kind === (kind === "audioinput" ? "audio" : "video")
+      );
+    return track?.getSettings().deviceId || "";
+  };
+
+  const handleChange = async (kind: DeviceKind, deviceId: string) => {
+    if (kind === "audiooutput") {
+      webRTCService.setAudioOutput(deviceId);
+      return;
+    }
+
+    try {
+      await webRTCService.switchDevice(kind, deviceId);
+    } catch (error) {
+      console.error(`Error switching ${kind}:`, error);
+      toast.error(`Could not switch ${DEVICE_LABELS[kind].toLowerCase()}`);
+    }
+  };
+
+  const kinds: DeviceKind[] = speakerSupported
+    ? ["videoinput", "audioinput", "audiooutput"]
+    : ["videoinput", "audioinput"];
+
+  return (
+    <div className="space-y-4">
+      {kinds.map((kind) => {
+        const devices = mediaDevices.filter(
+          (device) => device.kind === kind && device.deviceId
+        );
+
+        return (
+          <div key={kind} className="space-y-2">
+            <Label htmlFor={kind}>{DEVICE_LABELS[kind]}</Label>
+            <Select
+              value={getCurrentDeviceId(kind)}
+              disabled={devices.length === 0}
+              onValueChange={(deviceId) => handleChange(kind, deviceId)}
+            >
+              <SelectTrigger id={kind} className="w-full">
+                <SelectValue
+                  placeholder={`No ${DEVICE_LABELS[kind].toLowerCase()} found`}
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {devices.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `${DEVICE_LABELS[kind]} ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Settings dialog of the meeting room
+export function DeviceSettings() {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-300 hover:text-white"
+        >
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Choose the camera, microphone and speaker for this call. Your
+            choice is remembered for next time.
+          </DialogDescription>
+        </DialogHeader>
+        <DevicePickers />
+        <NoiseSuppressionSettings />
+        <BackgroundPicker />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Mic, MicOff, Video, VideoOff, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { AudioLevelMeter } from "@/components/AudioLevelMeter";
+import { DevicePickers } from "@/components/DeviceSettings";
+import { BackgroundPicker } from "@/components/BackgroundPicker";
+import { NoiseSuppressionSettings } from "@/components/NoiseSuppressionSettings";
+
+import { useGlobalState } from "@/state/globalState";
+import { webRTCService } from "@/services/webRTCService";
+
+interface MeetingLobbyProps {
+  title?: string;
+  isJoining: boolean;
+  onJoin: () => void;
+  onCancel: () => void;
+}
+
+// Pre-join screen: check camera and mic, and pick whether to join muted or
+// with the camera off
+export function MeetingLobby({
+  title,
+  isJoining,
+  onJoin,
+  onCancel,
+}: MeetingLobbyProps) {
+  const { user, localStream, isAudioEnabled, isVideoEnabled } =
+    useGlobalState();
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current && localStream) {
+      videoRef.current.srcObject = localStream;
+    }
+  }, [localStream, isVideoEnabled]);
+
+  const initials =
+    user?.name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase() || "U";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 p-6 text-white">
+      <div className="grid w-full max-w-5xl gap-8 md:grid-cols-[3fr_2fr]">
+        <div className="space-y-4">
+          <Card className="relative overflow-hidden bg-gray-800 border-gray-700">
+            <CardContent className="p-0 aspect-video">
+              {localStream && isVideoEnabled ? (
+                <video
+                  ref={videoRef}
+                  autoPlay
+                  playsInline
+                  muted
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <Avatar className="h-20 w-20">
+                    <AvatarFallback className="text-2xl">
+                      {initials}
+                    </AvatarFallback>
+                  </Avatar>
+                </div>
+              )}
+
+              <div className="absolute bottom-4 left-0 right-0 flex justify-center gap-4">
+                <Button
+                  variant={isAudioEnabled ? "default" : "destructive"}
+                  size="lg"
+                  onClick={() => webRTCService.toggleAudio()}
+                  className="rounded-full w-12 h-12"
+                >
+                  {isAudioEnabled ? (
+                    <Mic className="h-5 w-5" />
+                  ) : (
+                    <MicOff className="h-5 w-5" />
+                  )}
+                </Button>
+                <Button
+                  variant={isVideoEnabled ? "default" : "destructive"}
+                  size="lg"
+                  onClick={() => webRTCService.toggleVideo()}
+                  className="rounded-full w-12 h-12"
+                >
+                  {isVideoEnabled ? (
+                    <Video className="h-5 w-5" />
+                  ) : (
+                    <VideoOff className="h-5 w-5" />
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-2">
+            <Label>Microphone level</Label>
+            <AudioLevelMeter stream={localStream} />
+            {!isAudioEnabled && (
+              <p className="text-xs text-gray-400">
+                You will join muted.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col justify-center space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold">
+              {title || "Ready to join?"}
+            </h1>
+            <p className="text-gray-400">
+              Check your camera and microphone before joining.
+            </p>
+          </div>
+
+          <DevicePickers />
+          <NoiseSuppressionSettings />
+          <BackgroundPicker />
+
+          <div className="flex gap-3">
+            <Button
+              size="lg"
+              onClick={onJoin}
+              disabled={isJoining}
+              className="flex-1"
+            >
+              {isJoining && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isJoining ? "Joining..." : "Join now"}
+            </Button>
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={onCancel}
+              disabled={isJoining}
+              className="text-gray-900"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
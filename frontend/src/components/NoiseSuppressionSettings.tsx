@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+
+import {
+  useGlobalState,
+  NoiseSuppressionSettings as Settings,
+} from "@/state/globalState";
+import { webRTCService } from "@/services/webRTCService";
+
+// Noise suppression toggle and strength, for the lobby and the meeting
+// room's settings dialog
+export function NoiseSuppressionSettings() {
+  const { noiseSuppression, localStream } = useGlobalState();
+  const [isApplying, setIsApplying] = useState(false);
+  // Follows the slider while dragging; applied when released
+  const [strength, setStrength] = useState(noiseSuppression.strength * 100);
+
+  useEffect(() => {
+    setStrength(noiseSuppression.strength * 100);
+  }, [noiseSuppression.strength]);
+
+  const apply = async (settings: Settings) => {
+    try {
+      setIsApplying(true);
+      await webRTCService.setNoiseSuppression(settings);
+    } catch (error) {
+      console.error("Error changing noise suppression:", error);
+      toast.error("Could not change noise suppression");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const hasMicrophone = !!localStream?.getAudioTracks().length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="noise-suppression" className="flex items-center gap-2">
+          Noise suppression
+          {isApplying && <Loader2 className="h-3 w-3 animate-spin" />}
+        </Label>
+        <Switch
+          id="noise-suppression"
+          checked={noiseSuppression.enabled}
+          onCheckedChange={(enabled) =>
+            apply({ ...noiseSuppression, enabled })
+          }
+          disabled={isApplying || !hasMicrophone}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <Slider
+          min={0}
+          max={100}
+          step={5}
+          value={[strength]}
+          onValueChange={([value]) => setStrength(value)}
+          onValueCommit={([value]) =>
+            apply({ ...noiseSuppression, strength: value / 100 })
+          }
+          disabled={isApplying || !noiseSuppression.enabled}
+          aria-label="Noise suppression strength"
+        />
+        <span className="w-10 text-right text-xs text-gray-400">
+          {strength}%
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { AlertTriangle, Lock } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+import { useGlobalState } from "@/state/globalState";
+
+// The E2EE badge of an encrypted meeting, opening the safety number shared
+// with each participant. Both sides of a pair see the same number unless
+// the server swapped their public keys. A number that changed since it was
+// first seen is flagged until the user has compared it again.
+export function SafetyNumbers() {
+  const { participants, updateParticipant } = useGlobalState();
+  const hasChanges = Array.from(participants.values()).some(
+    (participant) => participant.safetyNumberChanged
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Badge variant="outline" className="flex items-center gap-1" asChild>
+          <button type="button">
+            {hasChanges ? (
+              <AlertTriangle className="h-3 w-3 text-yellow-500" />
+            ) : (
+              <Lock className="h-3 w-3" />
+            )}
+            E2EE
+          </button>
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <p className="text-sm">
+          Read your number with each participant aloud. If both of you see the
+          same digits, nobody can listen in.
+        </p>
+        {participants.size === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nobody else is here yet
+          </p>
+        ) : (
+          Array.from(participants.values()).map((participant) => (
+            <div key={participant.socketId} className="space-y-1">
+              <div className="text-sm font-medium truncate">
+                {participant.name || "Unknown"}
+              </div>
+              <div className="font-mono text-sm tracking-wider">
+                {participant.safetyNumber || "Exchanging keys…"}
+              </div>
+              {participant.safetyNumberChanged && (
+                <div className="flex items-center justify-between gap-2 text-xs text-yellow-500">
+                  <span>Changed since you last saw it</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-6 px-2 text-xs"
+                    onClick={() =>
+                      updateParticipant(participant.socketId, {
+                        safetyNumberChanged: false,
+                      })
+                    }
+                  >
+                    Compared
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,491 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import * as Y from "yjs";
+import {
+  Circle,
+  Download,
+  Eraser,
+  Minus,
+  Pencil,
+  Square,
+  StickyNote,
+  Type,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+import {
+  BOARD_HEIGHT,
+  BOARD_WIDTH,
+  WhiteboardElement,
+  getElements,
+  sortElements,
+} from "@/services/whiteboard";
+
+type Tool = "pen" | "rect" | "ellipse" | "line" | "sticky" | "text" | "eraser";
+
+const COLORS = [
+  "#111827",
+  "#ef4444",
+  "#f59e0b",
+  "#22c55e",
+  "#3b82f6",
+  "#a855f7",
+];
+
+const STROKE_WIDTH = 4;
+const FONT_SIZE = 28;
+const STICKY_WIDTH = 220;
+const STICKY_HEIGHT = 160;
+const STICKY_PADDING = 12;
+
+// Breaks text into lines of roughly maxChars, keeping the user's newlines
+const wrapText = (text: string, maxChars: number) =>
+  text.split("\n").flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = "";
+    paragraph.split(" ").forEach((word) => {
+      if (line && line.length + word.length + 1 > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+    lines.push(line);
+    return lines;
+  });
+
+// Keeps shapes drawn up or left from having a negative size
+const normalize = (element: WhiteboardElement): WhiteboardElement => {
+  if (element.type !== "rect" && element.type !== "ellipse") return element;
+  return {
+    ...element,
+    x: Math.min(element.x, element.x + element.width),
+    y: Math.min(element.y, element.y + element.height),
+    width: Math.abs(element.width),
+    height: Math.abs(element.height),
+  };
+};
+
+const renderElement = (element: WhiteboardElement) => {
+  switch (element.type) {
+    case "pen": {
+      const points = element.points.map(([x, y]) => `${x},${y}`);
+      // A single click still leaves a dot
+      if (points.length === 1) {
+        const [x, y] = element.points[0];
+        points.push(`${x + 0.1},${y}`);
+      }
+      return (
+        <polyline
+          points={points.join(" ")}
+          fill="none"
+          stroke={element.color}
+          strokeWidth={STROKE_WIDTH}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      );
+    }
+    case "rect":
+    case "ellipse": {
+      const shape = normalize(element) as typeof element;
+      return shape.type === "rect" ? (
+        <rect
+          x={shape.x}
+          y={shape.y}
+          width={shape.width}
+          height={shape.height}
+          fill="none"
+          stroke={shape.color}
+          strokeWidth={STROKE_WIDTH}
+        />
+      ) : (
+        <ellipse
+          cx={shape.x + shape.width / 2}
+          cy={shape.y + shape.height / 2}
+          rx={shape.width / 2}
+          ry={shape.height / 2}
+          fill="none"
+          stroke={shape.color}
+          strokeWidth={STROKE_WIDTH}
+        />
+      );
+    }
+    case "line":
+      return (
+        <line
+          x1={element.x}
+          y1={element.y}
+          x2={element.x + element.width}
+          y2={element.y + element.height}
+          stroke={element.color}
+          strokeWidth={STROKE_WIDTH}
+          strokeLinecap="round"
+        />
+      );
+    case "sticky":
+      return (
+        <>
+          <rect
+            x={element.x}
+            y={element.y}
+            width={element.width}
+            height={element.height}
+            rx={6}
+            fill={element.color}
+            fillOpacity={0.25}
+            stroke={element.color}
+            strokeWidth={2}
+          />
+          <text
+            x={element.x + STICKY_PADDING}
+            y={element.y + STICKY_PADDING}
+            fontSize={FONT_SIZE * 0.75}
+            fontFamily="sans-serif"
+            fill="#111827"
+            dominantBaseline="hanging"
+          >
+            {wrapText(element.text, 18).map((line, i) => (
+              <tspan
+                key={i}
+                x={element.x + STICKY_PADDING}
+                dy={i ? "1.2em" : 0}
+              >
+                {line}
+              </tspan>
+            ))}
+          </text>
+        </>
+      );
+    case "text":
+      return (
+        <text
+          x={element.x}
+          y={element.y}
+          fontSize={FONT_SIZE}
+          fontFamily="sans-serif"
+          fill={element.color}
+          dominantBaseline="hanging"
+        >
+          {element.text.split("\n").map((line, i) => (
+            <tspan key={i} x={element.x} dy={i ? "1.2em" : 0}>
+              {line}
+            </tspan>
+          ))}
+        </text>
+      );
+  }
+};
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The board as a standalone SVG, without the editing controls
+const serializeBoard = (svg: SVGSVGElement) => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.querySelectorAll("[data-export-ignore]").forEach((node) => {
+    node.remove();
+  });
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  copy.setAttribute("width", String(BOARD_WIDTH));
+  copy.setAttribute("height", String(BOARD_HEIGHT));
+  return new Blob([new XMLSerializer().serializeToString(copy)], {
+    type: "image/svg+xml",
+  });
+};
+
+const exportPng = async (svg: SVGSVGElement, fileName: string) => {
+  const url = URL.createObjectURL(serializeBoard(svg));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = BOARD_WIDTH;
+    canvas.height = BOARD_HEIGHT;
+    canvas.getContext("2d")!.drawImage(image, 0, 0);
+    canvas.toBlob((blob) => blob && download(blob, fileName), "image/png");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+interface WhiteboardProps {
+  doc: Y.Doc;
+  // Used for the exported files
+  name: string;
+  readOnly?: boolean;
+}
+
+// A shared drawing board. Every change goes into the Yjs document, which
+// the caller keeps in sync with the other participants.
+export function Whiteboard({ doc, name, readOnly = false }: WhiteboardProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [elements, setElements] = useState(() => sortElements(doc));
+  const [tool, setTool] = useState<Tool>("pen");
+  const [color, setColor] = useState(COLORS[0]);
+  // Shape or stroke being drawn, shared once the pointer is released
+  const [draft, setDraft] = useState<WhiteboardElement | null>(null);
+  // Sticky note or text being typed into
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const map = getElements(doc);
+    const update = () => setElements(sortElements(doc));
+    update();
+    map.observe(update);
+    return () => map.unobserve(update);
+  }, [doc]);
+
+  const editing = elements.find((element) => element.id === editingId);
+
+  const setElement = (element: WhiteboardElement) => {
+    getElements(doc).set(element.id, element);
+  };
+
+  const deleteElement = (id: string) => {
+    getElements(doc).delete(id);
+  };
+
+  // Pointer position in board coordinates
+  const toBoard = (event: React.PointerEvent): [number, number] => {
+    const matrix = svgRef.current!.getScreenCTM()!.inverse();
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(
+      matrix
+    );
+    return [Math.round(point.x), Math.round(point.y)];
+  };
+
+  const eraseAt = (event: React.PointerEvent) => {
+    const target = (event.target as Element).closest("[data-element-id]");
+    const id = target?.getAttribute("data-element-id");
+    if (id) deleteElement(id);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (readOnly || editing) return;
+    if (tool === "eraser") {
+      eraseAt(event);
+      return;
+    }
+
+    const [x, y] = toBoard(event);
+    const base = { id: crypto.randomUUID(), color, createdAt: Date.now() };
+
+    if (tool === "sticky" || tool === "text") {
+      setElement(
+        tool === "sticky"
+          ? {
+              ...base,
+              type: "sticky",
+              x: x - STICKY_WIDTH / 2,
+              y: y - STICKY_HEIGHT / 2,
+              width: STICKY_WIDTH,
+              height: STICKY_HEIGHT,
+              text: "",
+            }
+          : { ...base, type: "text", x, y, text: "" }
+      );
+      setEditingId(base.id);
+      // Keep focus in the editor rather than on the board
+      event.preventDefault();
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft(
+      tool === "pen"
+        ? { ...base, type: "pen", points: [[x, y]] }
+        : { ...base, type: tool, x, y, width: 0, height: 0 }
+    );
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (tool === "eraser" && event.buttons === 1) {
+      eraseAt(event);
+      return;
+    }
+    if (!draft) return;
+
+    const [x, y] = toBoard(event);
+    if (draft.type === "pen") {
+      setDraft({ ...draft, points: [...draft.points, [x, y]] });
+    } else if ("width" in draft) {
+      setDraft({ ...draft, width: x - draft.x, height: y - draft.y });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const isEmpty = "width" in draft && !draft.width && !draft.height;
+    if (!isEmpty) setElement(normalize(draft));
+    setDraft(null);
+  };
+
+  const finishEditing = () => {
+    if (editing && !("text" in editing && editing.text.trim())) {
+      deleteElement(editing.id);
+    }
+    setEditingId(null);
+  };
+
+  const handleExport = (format: "png" | "svg") => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const fileName = `whiteboard-${name}.${format}`;
+    if (format === "svg") {
+      download(serializeBoard(svg), fileName);
+    } else {
+      exportPng(svg, fileName).catch((error) => {
+        console.error("❌ Whiteboard export failed:", error);
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {!readOnly && (
+          <>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={tool}
+              onValueChange={(value) => value && setTool(value as Tool)}
+            >
+              <ToggleGroupItem value="pen" aria-label="Pen">
+                <Pencil className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="line" aria-label="Line">
+                <Minus className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="rect" aria-label="Rectangle">
+                <Square className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="ellipse" aria-label="Ellipse">
+                <Circle className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="sticky" aria-label="Sticky note">
+                <StickyNote className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="text" aria-label="Text">
+                <Type className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="eraser" aria-label="Eraser">
+                <Eraser className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+
+            <div className="flex items-center gap-1">
+              {COLORS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  className={`h-6 w-6 rounded-full ${
+                    option === color ? "ring-2 ring-blue-500 ring-offset-1" : ""
+                  }`}
+                  style={{ backgroundColor: option }}
+                  aria-label={`Color ${option}`}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="ml-auto">
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => handleExport("png")}>
+              PNG image
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExport("svg")}>
+              SVG drawing
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${BOARD_WIDTH} ${BOARD_HEIGHT}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full rounded-lg bg-white touch-none select-none ${
+          readOnly ? "" : "cursor-crosshair"
+        }`}
+      >
+        <rect width={BOARD_WIDTH} height={BOARD_HEIGHT} fill="#ffffff" />
+
+        {elements.map((element) =>
+          element.id === editingId ? null : (
+            <g
+              key={element.id}
+              data-element-id={element.id}
+              onDoubleClick={() => {
+                if (!readOnly && "text" in element) setEditingId(element.id);
+              }}
+            >
+              {renderElement(element)}
+            </g>
+          )
+        )}
+
+        {draft && <g data-export-ignore>{renderElement(draft)}</g>}
+
+        {editing && "text" in editing && (
+          <foreignObject
+            data-export-ignore
+            x={editing.x}
+            y={editing.y}
+            width={editing.type === "sticky" ? editing.width : 600}
+            height={editing.type === "sticky" ? editing.height : 200}
+          >
+            <textarea
+              autoFocus
+              value={editing.text}
+              onChange={(event) =>
+                setElement({ ...editing, text: event.target.value })
+              }
+              onBlur={finishEditing}
+              onKeyDown={(event) => {
+                if (event.key === "Escape") event.currentTarget.blur();
+              }}
+              placeholder="Type here"
+              className="h-full w-full resize-none rounded-md border-2 bg-white/90 p-2 text-gray-900 outline-none"
+              style={{
+                borderColor: editing.color,
+                fontSize:
+                  editing.type === "sticky" ? FONT_SIZE * 0.75 : FONT_SIZE,
+              }}
+            />
+          </foreignObject>
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// Strokes and laser pointers drawn over each screen share. They change many
+// times a second, so they live outside the global state and overlays
+// subscribe to the presentation they draw.
+
+import type { AnnotationPoint, AnnotationTool } from "@shared/signaling";
+
+export interface AnnotationStroke {
+  // Socket id of the author, which picks the color
+  from: string;
+  tool: AnnotationTool;
+  points: AnnotationPoint[];
+}
+
+export interface AnnotationPointer {
+  from: string;
+  point: AnnotationPoint;
+  updatedAt: number;
+}
+
+interface Board {
+  // By author and stroke id, in drawing order
+  strokes: Map<string, AnnotationStroke>;
+  pointers: Map<string, AnnotationPointer>;
+}
+
+// Oldest strokes are dropped beyond this, so a long review stays cheap to draw
+const MAX_STROKES = 500;
+
+class AnnotationStore {
+  // By presenter participant key ("local" for our own share)
+  private boards: Map<string, Board> = new Map();
+  private listeners: Map<string, Set<() => void>> = new Map();
+
+  getBoard(presenterKey: string): Board {
+    let board = this.boards.get(presenterKey);
+    if (!board) {
+      board = { strokes: new Map(), pointers: new Map() };
+      this.boards.set(presenterKey, board);
+    }
+    return board;
+  }
+
+  addPoints(
+    presenterKey: string,
+    from: string,
+    strokeId: string,
+    tool: AnnotationTool,
+    points: AnnotationPoint[]
+  ): void {
+    const { strokes } = this.getBoard(presenterKey);
+    const key = `${from}/${strokeId}`;
+    const stroke = strokes.get(key);
+
+    if (stroke) {
+      stroke.points.push(...points);
+    } else {
+      strokes.set(key, { from, tool, points: [...points] });
+      if (strokes.size > MAX_STROKES) {
+        strokes.delete(strokes.keys().next().value!);
+      }
+    }
+    this.notify(presenterKey);
+  }
+
+  setPointer(
+    presenterKey: string,
+    from: string,
+    point: AnnotationPoint | null
+  ): void {
+    const { pointers } = this.getBoard(presenterKey);
+    if (point) {
+      pointers.set(from, { from, point, updatedAt: Date.now() });
+    } else {
+      pointers.delete(from);
+    }
+    this.notify(presenterKey);
+  }
+
+  clear(presenterKey: string): void {
+    this.boards.delete(presenterKey);
+    this.notify(presenterKey);
+  }
+
+  clearAll(): void {
+    const presenterKeys = Array.from(this.boards.keys());
+    this.boards.clear();
+    presenterKeys.forEach((presenterKey) => this.notify(presenterKey));
+  }
+
+  subscribe(presenterKey: string, listener: () => void): () => void {
+    let listeners = this.listeners.get(presenterKey);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(presenterKey, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) this.listeners.delete(presenterKey);
+    };
+  }
+
+  private notify(presenterKey: string): void {
+    this.listeners.get(presenterKey)?.forEach((listener) => listener());
+  }
+}
+
+export const annotationStore = new AnnotationStore();
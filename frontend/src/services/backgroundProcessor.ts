@@ -0,0 +1,238 @@
+// Blurs or replaces the background of the camera before it is published.
+// A selfie segmentation model runs locally (WebGL, falling back to the CPU
+// build of the WASM runtime) and its person mask is composited over a
+// canvas, whose captured track stands in for the camera everywhere.
+
+import type {
+  ImageSegmenter,
+  ImageSegmenterResult,
+} from "@mediapipe/tasks-vision";
+
+export type BackgroundEffect =
+  | { type: "none" }
+  | { type: "blur" }
+  | { type: "image"; imageUrl: string };
+
+// Copied to public/vendor before every build (scripts/copy-media-assets.mjs);
+// the variables point elsewhere, e.g. at a CDN in front of the app
+const WASM_URL =
+  process.env.NEXT_PUBLIC_SEGMENTER_WASM_URL || "/vendor/tasks-vision";
+const MODEL_URL =
+  process.env.NEXT_PUBLIC_SEGMENTER_MODEL_URL ||
+  "/vendor/models/selfie_segmenter.tflite";
+
+const BLUR_RADIUS_PX = 12;
+const OUTPUT_FRAME_RATE = 30;
+
+// One segmenter is shared by every processor; loading it takes a while
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+const loadSegmenter = () => {
+  if (!segmenterPromise) {
+    segmenterPromise = (async () => {
+      // Loaded on first use; the runtime is large and browser-only
+      const { FilesetResolver, ImageSegmenter } = await import(
+        "@mediapipe/tasks-vision"
+      );
+      const fileset = await FilesetResolver.forVisionTasks(WASM_URL);
+      const create = (delegate: "GPU" | "CPU") =>
+        ImageSegmenter.createFromOptions(fileset, {
+          baseOptions: { modelAssetPath: MODEL_URL, delegate },
+          runningMode: "VIDEO",
+          outputConfidenceMasks: true,
+          outputCategoryMask: false,
+        });
+
+      try {
+        return await create("GPU");
+      } catch (error) {
+        console.warn("🎭 WebGL segmentation unavailable, using CPU:", error);
+        return await create("CPU");
+      }
+    })();
+    // Let a later attempt retry after a failed download
+    segmenterPromise.catch(() => {
+      segmenterPromise = null;
+    });
+  }
+  return segmenterPromise;
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${url}`));
+    image.src = url;
+  });
+
+export class BackgroundProcessor {
+  private segmenter: ImageSegmenter | null = null;
+  private video = document.createElement("video");
+  private canvas = document.createElement("canvas");
+  private context = this.canvas.getContext("2d")!;
+  // Person cut out of the current frame
+  private personCanvas = document.createElement("canvas");
+  private personContext = this.personCanvas.getContext("2d")!;
+  private maskCanvas = document.createElement("canvas");
+  private maskContext = this.maskCanvas.getContext("2d")!;
+  private backgroundImage: HTMLImageElement | null = null;
+  private output: MediaStreamTrack | null = null;
+  private frameHandle = 0;
+  private lastTimestamp = 0;
+  private running = false;
+
+  constructor(
+    private inputTrack: MediaStreamTrack,
+    private effect: BackgroundEffect
+  ) {
+    this.video.muted = true;
+    this.video.playsInline = true;
+  }
+
+  // The camera track being processed; the caller owns and stops it
+  get input(): MediaStreamTrack {
+    return this.inputTrack;
+  }
+
+  async start(): Promise<MediaStreamTrack> {
+    this.segmenter = await loadSegmenter();
+    await this.setEffect(this.effect);
+    await this.attachInput();
+
+    this.running = true;
+    this.scheduleFrame();
+
+    [this.output] = this.canvas
+      .captureStream(OUTPUT_FRAME_RATE)
+      .getVideoTracks();
+    return this.output;
+  }
+
+  // A camera switch only changes the input; the output track, and so every
+  // sender using it, stays the same
+  async setInput(track: MediaStreamTrack): Promise<void> {
+    this.inputTrack = track;
+    this.cancelFrame();
+    await this.attachInput();
+    this.scheduleFrame();
+  }
+
+  async setEffect(effect: BackgroundEffect): Promise<void> {
+    this.backgroundImage =
+      effect.type === "image" ? await loadImage(effect.imageUrl) : null;
+    this.effect = effect;
+  }
+
+  stop(): void {
+    this.running = false;
+    this.cancelFrame();
+    this.output?.stop();
+    this.video.srcObject = null;
+  }
+
+  private async attachInput(): Promise<void> {
+    const { width = 1280, height = 720 } = this.inputTrack.getSettings();
+    this.canvas.width = this.personCanvas.width = width;
+    this.canvas.height = this.personCanvas.height = height;
+
+    this.video.srcObject = new MediaStream([this.inputTrack]);
+    await this.video.play();
+  }
+
+  // Paced by the camera where supported, otherwise by the display
+  private scheduleFrame(): void {
+    if (!this.running) return;
+
+    if ("requestVideoFrameCallback" in this.video) {
+      this.frameHandle = this.video.requestVideoFrameCallback(() =>
+        this.processFrame()
+      );
+    } else {
+      this.frameHandle = requestAnimationFrame(() => this.processFrame());
+    }
+  }
+
+  private cancelFrame(): void {
+    if ("cancelVideoFrameCallback" in this.video) {
+      this.video.cancelVideoFrameCallback(this.frameHandle);
+    }
+    cancelAnimationFrame(this.frameHandle);
+  }
+
+  private processFrame(): void {
+    if (!this.running || !this.segmenter) return;
+
+    if (this.video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      // The segmenter rejects timestamps that don't increase
+      const timestamp = Math.max(performance.now(), this.lastTimestamp + 1);
+      this.lastTimestamp = timestamp;
+
+      try {
+        this.segmenter.segmentForVideo(this.video, timestamp, (result) =>
+          this.composite(result)
+        );
+      } catch (error) {
+        console.error("🎭 Segmentation failed:", error);
+      }
+    }
+
+    this.scheduleFrame();
+  }
+
+  private composite(result: ImageSegmenterResult): void {
+    const { width, height } = this.canvas;
+    const mask = result.confidenceMasks?.[0];
+
+    if (this.effect.type === "none" || !mask) {
+      this.context.drawImage(this.video, 0, 0, width, height);
+      return;
+    }
+
+    // Person confidence becomes the alpha of the cut-out
+    const confidence = mask.getAsFloat32Array();
+    if (
+      this.maskCanvas.width !== mask.width ||
+      this.maskCanvas.height !== mask.height
+    ) {
+      this.maskCanvas.width = mask.width;
+      this.maskCanvas.height = mask.height;
+    }
+    const pixels = this.maskContext.createImageData(mask.width, mask.height);
+    for (let i = 0; i < confidence.length; i++) {
+      pixels.data[i * 4 + 3] = confidence[i] * 255;
+    }
+    this.maskContext.putImageData(pixels, 0, 0);
+
+    this.personContext.globalCompositeOperation = "copy";
+    this.personContext.drawImage(this.maskCanvas, 0, 0, width, height);
+    this.personContext.globalCompositeOperation = "source-in";
+    this.personContext.drawImage(this.video, 0, 0, width, height);
+
+    if (this.effect.type === "blur") {
+      this.context.filter = `blur(${BLUR_RADIUS_PX}px)`;
+      this.context.drawImage(this.video, 0, 0, width, height);
+      this.context.filter = "none";
+    } else if (this.backgroundImage) {
+      this.drawCover(this.backgroundImage);
+    }
+    this.context.drawImage(this.personCanvas, 0, 0);
+  }
+
+  // Scale the image to fill the frame, cropping what overflows
+  private drawCover(image: HTMLImageElement): void {
+    const { width, height } = this.canvas;
+    const scale = Math.max(width / image.width, height / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+
+    this.context.drawImage(
+      image,
+      (width - drawWidth) / 2,
+      (height - drawHeight) / 2,
+      drawWidth,
+      drawHeight
+    );
+  }
+}
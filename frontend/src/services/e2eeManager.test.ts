@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { getSafetyNumber } from "./e2eeManager";
+
+const publicKey = async () => {
+  const { publicKey } = await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    ["deriveKey"]
+  );
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", publicKey));
+  return btoa(String.fromCharCode(...raw));
+};
+
+describe("getSafetyNumber", () => {
+  it("gives both sides of a pair the same 30 digits", async () => {
+    const [alice, bob] = await Promise.all([publicKey(), publicKey()]);
+
+    const number = await getSafetyNumber([alice, bob]);
+
+    expect(number).toMatch(/^\d{5}( \d{5}){5}$/);
+    expect(await getSafetyNumber([bob, alice])).toBe(number);
+  });
+
+  it("changes when a key is swapped", async () => {
+    const [alice, bob, mallory] = await Promise.all([
+      publicKey(),
+      publicKey(),
+      publicKey(),
+    ]);
+
+    expect(await getSafetyNumber([alice, mallory])).not.toBe(
+      await getSafetyNumber([alice, bob])
+    );
+  });
+
+  it("hashes both keys into six groups of five digits", async () => {
+    // sha256(00 01 02 03 04 05 06 07), five bytes per group, modulo 100000
+    expect(await getSafetyNumber(["BAUGBw==", "AAECAw=="])).toBe(
+      "51726 51614 45951 65170 19459 70106"
+    );
+  });
+});
@@ -0,0 +1,272 @@
+// Key management for end-to-end encrypted meetings. Every participant
+// encrypts its own media with a random sender key and hands that key to each
+// other participant wrapped with an ECDH-derived pairwise key. Sender keys
+// are rotated whenever someone joins or leaves.
+//
+// The public keys are relayed by the server, which could swap them for its
+// own and read along. Each pair of participants therefore gets a safety
+// number derived from both keys; reading it out over the call and finding
+// it the same on both sides shows that no one is in between.
+
+import type { ClientPayload } from "@shared/signaling";
+
+type Emit = <E extends "e2ee-public-key" | "e2ee-key">(
+  event: E,
+  data: ClientPayload<E>
+) => void;
+
+type SafetyNumberHandler = (socketId: string, safetyNumber: string) => void;
+
+interface SenderKey {
+  keyId: number;
+  raw: ArrayBuffer;
+}
+
+// Receivers get the new key before we start encrypting with it
+const KEY_SWITCH_DELAY_MS = 1000;
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// 30 digits from a hash of both public keys, sorted so that the two sides
+// of a pair get the same number
+export const getSafetyNumber = async (publicKeys: [string, string]) => {
+  const [first, second] = publicKeys.sort().map(fromBase64);
+  const combined = new Uint8Array(first.length + second.length);
+  combined.set(first);
+  combined.set(second, first.length);
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", combined)
+  );
+
+  const groups: string[] = [];
+  for (let i = 0; i < 30; i += 5) {
+    const value = digest
+      .slice(i, i + 5)
+      .reduce((total, byte) => total * 256 + byte, 0);
+    groups.push(String(value % 100000).padStart(5, "0"));
+  }
+  return groups.join(" ");
+};
+
+const hasScriptTransform = () =>
+  typeof window !== "undefined" && "RTCRtpScriptTransform" in window;
+
+// Chrome before RTCRtpScriptTransform only has insertable streams
+const hasInsertableStreams = () =>
+  typeof RTCRtpSender !== "undefined" &&
+  "createEncodedStreams" in RTCRtpSender.prototype;
+
+export class E2EEManager {
+  private worker: Worker;
+  private keyPair: CryptoKeyPair | null = null;
+  private publicKey = "";
+  // AES-GCM keys shared with each participant, by socket id
+  private pairKeys: Map<string, CryptoKey> = new Map();
+  private senderKey: SenderKey | null = null;
+  private switchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private emit: Emit,
+    private onSafetyNumber: SafetyNumberHandler
+  ) {
+    this.worker = new Worker(new URL("./e2eeWorker.ts", import.meta.url), {
+      type: "module",
+    });
+  }
+
+  static isSupported(): boolean {
+    return hasScriptTransform() || hasInsertableStreams();
+  }
+
+  // Insertable streams must be enabled on the connection up front
+  static get needsInsertableStreams(): boolean {
+    return !hasScriptTransform() && hasInsertableStreams();
+  }
+
+  // Reusing the key pair of an earlier session keeps the safety numbers
+  async start(keyPair?: CryptoKeyPair): Promise<CryptoKeyPair> {
+    this.keyPair =
+      keyPair ||
+      (await crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-256" },
+        false,
+        ["deriveKey"]
+      ));
+    this.publicKey = toBase64(
+      await crypto.subtle.exportKey("raw", this.keyPair.publicKey)
+    );
+
+    await this.rotateKey(true);
+    this.emit("e2ee-public-key", { publicKey: this.publicKey });
+    return this.keyPair;
+  }
+
+  stop(): void {
+    if (this.switchTimer) clearTimeout(this.switchTimer);
+    this.worker.terminate();
+    this.pairKeys.clear();
+    this.keyPair = null;
+    this.senderKey = null;
+  }
+
+  // A broadcast key comes from a newcomer, who gets ours in return
+  async handlePublicKey(data: {
+    from: string;
+    publicKey: string;
+    to?: string;
+  }): Promise<void> {
+    if (!this.keyPair) return;
+
+    try {
+      const remoteKey = await crypto.subtle.importKey(
+        "raw",
+        fromBase64(data.publicKey),
+        { name: "ECDH", namedCurve: "P-256" },
+        false,
+        []
+      );
+      const pairKey = await crypto.subtle.deriveKey(
+        { name: "ECDH", public: remoteKey },
+        this.keyPair.privateKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+      this.pairKeys.set(data.from, pairKey);
+      this.onSafetyNumber(
+        data.from,
+        await getSafetyNumber([this.publicKey, data.publicKey])
+      );
+
+      if (!data.to) {
+        this.emit("e2ee-public-key", { to: data.from, publicKey: this.publicKey });
+      }
+      await this.sendKeyTo(data.from);
+    } catch (error) {
+      console.error(`🔐 Key agreement with ${data.from} failed:`, error);
+    }
+  }
+
+  async handleKey(data: {
+    from: string;
+    keyId: number;
+    iv: string;
+    key: string;
+  }): Promise<void> {
+    const pairKey = this.pairKeys.get(data.from);
+    if (!pairKey) {
+      console.warn(`🔐 Media key from ${data.from} before key agreement`);
+      return;
+    }
+
+    try {
+      const raw = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(data.iv) },
+        pairKey,
+        fromBase64(data.key)
+      );
+      this.worker.postMessage({
+        type: "setReceiveKey",
+        socketId: data.from,
+        keyId: data.keyId,
+        key: raw,
+      });
+    } catch (error) {
+      console.error(`🔐 Could not unwrap media key from ${data.from}:`, error);
+    }
+  }
+
+  // Someone joined: they must not decrypt anything sent before
+  handleParticipantJoined(): void {
+    this.rotateKey().catch((error) =>
+      console.error("🔐 Key rotation failed:", error)
+    );
+  }
+
+  // Someone left: they must not decrypt anything sent after
+  handleParticipantLeft(socketId: string): void {
+    this.pairKeys.delete(socketId);
+    this.worker.postMessage({ type: "removeParticipant", socketId });
+    this.rotateKey().catch((error) =>
+      console.error("🔐 Key rotation failed:", error)
+    );
+  }
+
+  attachSender(sender: RTCRtpSender): void {
+    this.attach(sender, { operation: "encrypt" });
+  }
+
+  attachReceiver(receiver: RTCRtpReceiver, socketId: string): void {
+    this.attach(receiver, { operation: "decrypt", socketId });
+  }
+
+  private attach(
+    endpoint: RTCRtpSender | RTCRtpReceiver,
+    options: { operation: "encrypt" | "decrypt"; socketId?: string }
+  ): void {
+    if (hasScriptTransform()) {
+      endpoint.transform = new RTCRtpScriptTransform(this.worker, options);
+      return;
+    }
+
+    const { readable, writable } = (
+      endpoint as unknown as {
+        createEncodedStreams: () => {
+          readable: ReadableStream;
+          writable: WritableStream;
+        };
+      }
+    ).createEncodedStreams();
+    this.worker.postMessage(
+      { type: "transform", ...options, readable, writable },
+      [readable, writable] as unknown as Transferable[]
+    );
+  }
+
+  private async rotateKey(immediate = false): Promise<void> {
+    const keyId = this.senderKey ? (this.senderKey.keyId + 1) % 256 : 0;
+    const raw = crypto.getRandomValues(new Uint8Array(16)).buffer;
+    this.senderKey = { keyId, raw };
+
+    await Promise.all(
+      Array.from(this.pairKeys.keys()).map((socketId) =>
+        this.sendKeyTo(socketId)
+      )
+    );
+
+    if (this.switchTimer) clearTimeout(this.switchTimer);
+    const activate = () => {
+      this.switchTimer = null;
+      this.worker.postMessage({ type: "setSendKey", keyId, key: raw });
+    };
+
+    if (immediate) {
+      activate();
+    } else {
+      this.switchTimer = setTimeout(activate, KEY_SWITCH_DELAY_MS);
+    }
+  }
+
+  private async sendKeyTo(socketId: string): Promise<void> {
+    const pairKey = this.pairKeys.get(socketId);
+    if (!pairKey || !this.senderKey) return;
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      pairKey,
+      this.senderKey.raw
+    );
+
+    this.emit("e2ee-key", {
+      to: socketId,
+      keyId: this.senderKey.keyId,
+      iv: toBase64(iv),
+      key: toBase64(wrapped),
+    });
+  }
+}
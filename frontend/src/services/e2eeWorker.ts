@@ -0,0 +1,187 @@
+// Encrypts outgoing and decrypts incoming encoded media frames for meetings
+// with end-to-end encryption. Frames are laid out SFrame-style:
+//
+//   [clear header][AES-GCM ciphertext + tag][IV (12 bytes)][key id (1 byte)]
+//
+// The clear header keeps the codec bytes the SFU needs for forwarding
+// (VP8 keyframe flag and dimensions, Opus TOC) readable, and is
+// authenticated as additional data.
+
+type EncodedFrame = RTCEncodedVideoFrame | RTCEncodedAudioFrame;
+
+type Operation = "encrypt" | "decrypt";
+
+type WorkerMessage =
+  | { type: "setSendKey"; keyId: number; key: ArrayBuffer }
+  | { type: "setReceiveKey"; socketId: string; keyId: number; key: ArrayBuffer }
+  | { type: "removeParticipant"; socketId: string }
+  | {
+      type: "transform";
+      operation: Operation;
+      socketId?: string;
+      readable: ReadableStream<EncodedFrame>;
+      writable: WritableStream<EncodedFrame>;
+    };
+
+// Worker-side RTCRtpScriptTransform event, which the DOM typings lack
+interface RTCTransformEvent {
+  transformer: {
+    options?: { operation: Operation; socketId?: string };
+    readable: ReadableStream<EncodedFrame>;
+    writable: WritableStream<EncodedFrame>;
+  };
+}
+
+const IV_LENGTH = 12;
+// Receive keys kept per participant so frames in flight during a rotation
+// still decrypt
+const MAX_RECEIVE_KEYS = 4;
+
+const UNENCRYPTED_BYTES = {
+  key: 10,
+  delta: 3,
+  audio: 1,
+};
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+  onrtctransform: ((event: RTCTransformEvent) => void) | null;
+};
+
+let sendKey: { keyId: number; key: CryptoKey } | null = null;
+const receiveKeys: Map<string, Map<number, CryptoKey>> = new Map();
+
+const importKey = (raw: ArrayBuffer) =>
+  crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+
+const getClearLength = (frame: EncodedFrame) => {
+  if (!("type" in frame) || frame.type === "empty") return UNENCRYPTED_BYTES.audio;
+  return frame.type === "key" ? UNENCRYPTED_BYTES.key : UNENCRYPTED_BYTES.delta;
+};
+
+async function encryptFrame(
+  frame: EncodedFrame,
+  controller: TransformStreamDefaultController<EncodedFrame>
+) {
+  // Nothing leaves unencrypted; frames before the first key are dropped
+  if (!sendKey) return;
+
+  const data = new Uint8Array(frame.data);
+  const clearLength = Math.min(getClearLength(frame), data.length);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const header = data.subarray(0, clearLength);
+
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: header },
+      sendKey.key,
+      data.subarray(clearLength)
+    )
+  );
+
+  const output = new Uint8Array(clearLength + ciphertext.length + IV_LENGTH + 1);
+  output.set(header, 0);
+  output.set(ciphertext, clearLength);
+  output.set(iv, clearLength + ciphertext.length);
+  output[output.length - 1] = sendKey.keyId;
+
+  frame.data = output.buffer;
+  controller.enqueue(frame);
+}
+
+async function decryptFrame(
+  socketId: string,
+  frame: EncodedFrame,
+  controller: TransformStreamDefaultController<EncodedFrame>
+) {
+  const data = new Uint8Array(frame.data);
+  const clearLength = getClearLength(frame);
+  if (data.length < clearLength + IV_LENGTH + 1) return;
+
+  const keyId = data[data.length - 1];
+  const key = receiveKeys.get(socketId)?.get(keyId);
+  if (!key) return;
+
+  const ivStart = data.length - 1 - IV_LENGTH;
+  try {
+    const plaintext = new Uint8Array(
+      await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: data.subarray(ivStart, ivStart + IV_LENGTH),
+          additionalData: data.subarray(0, clearLength),
+        },
+        key,
+        data.subarray(clearLength, ivStart)
+      )
+    );
+
+    const output = new Uint8Array(clearLength + plaintext.length);
+    output.set(data.subarray(0, clearLength), 0);
+    output.set(plaintext, clearLength);
+
+    frame.data = output.buffer;
+    controller.enqueue(frame);
+  } catch {
+    // Tampered frame or a key we were never given; drop it
+  }
+}
+
+function pipeFrames(
+  operation: Operation,
+  socketId: string | undefined,
+  readable: ReadableStream<EncodedFrame>,
+  writable: WritableStream<EncodedFrame>
+) {
+  const transform = new TransformStream<EncodedFrame, EncodedFrame>({
+    transform: (frame, controller) =>
+      operation === "encrypt"
+        ? encryptFrame(frame, controller)
+        : decryptFrame(socketId!, frame, controller),
+  });
+
+  readable
+    .pipeThrough(transform)
+    .pipeTo(writable)
+    .catch((error) => console.error(`E2EE ${operation} stream closed:`, error));
+}
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case "setSendKey":
+      sendKey = { keyId: message.keyId, key: await importKey(message.key) };
+      break;
+    case "setReceiveKey": {
+      const keys = receiveKeys.get(message.socketId) || new Map();
+      // Key ids wrap around, so a reused id must move to the newest slot
+      keys.delete(message.keyId);
+      keys.set(message.keyId, await importKey(message.key));
+      if (keys.size > MAX_RECEIVE_KEYS) {
+        keys.delete(keys.keys().next().value!);
+      }
+      receiveKeys.set(message.socketId, keys);
+      break;
+    }
+    case "removeParticipant":
+      receiveKeys.delete(message.socketId);
+      break;
+    case "transform":
+      pipeFrames(message.operation, message.socketId, message.readable, message.writable);
+      break;
+  }
+};
+
+// RTCRtpScriptTransform (Safari, Firefox, newer Chrome)
+scope.onrtctransform = (event) => {
+  const { transformer } = event;
+  if (!transformer.options) return;
+
+  pipeFrames(
+    transformer.options.operation,
+    transformer.options.socketId,
+    transformer.readable,
+    transformer.writable
+  );
+};
@@ -0,0 +1,123 @@
+// Removes background noise from the microphone before it is published.
+// RNNoise runs as WASM in an AudioWorklet; the strength setting mixes its
+// output with the untouched signal, delayed by one RNNoise frame so the two
+// line up.
+
+import type { RnnoiseWorkletNode } from "@sapphi-red/web-noise-suppressor";
+
+// Served from public/vendor by default, like the segmentation model
+const ASSET_URL =
+  process.env.NEXT_PUBLIC_NOISE_SUPPRESSOR_URL || "/vendor/noise-suppressor";
+
+// RNNoise only works on 48 kHz audio, in frames of 480 samples
+const SAMPLE_RATE = 48000;
+const FRAME_DELAY_SEC = 480 / SAMPLE_RATE;
+// Time constant for strength changes, short enough to feel immediate
+const STRENGTH_RAMP_SEC = 0.05;
+
+let wasmPromise: Promise<ArrayBuffer> | null = null;
+
+const loadWasm = async () => {
+  const { loadRnnoise } = await import("@sapphi-red/web-noise-suppressor");
+  if (!wasmPromise) {
+    wasmPromise = loadRnnoise({
+      url: `${ASSET_URL}/rnnoise.wasm`,
+      simdUrl: `${ASSET_URL}/rnnoise_simd.wasm`,
+    });
+    // Let a later attempt retry after a failed download
+    wasmPromise.catch(() => {
+      wasmPromise = null;
+    });
+  }
+  return wasmPromise;
+};
+
+export class NoiseSuppressor {
+  private context = new AudioContext({ sampleRate: SAMPLE_RATE });
+  private source: MediaStreamAudioSourceNode | null = null;
+  private rnnoise: RnnoiseWorkletNode | null = null;
+  private delay = this.context.createDelay();
+  private wet = this.context.createGain();
+  private dry = this.context.createGain();
+  private destination = this.context.createMediaStreamDestination();
+
+  constructor(
+    private inputTrack: MediaStreamTrack,
+    private strength: number
+  ) {}
+
+  // The microphone track being processed; the caller owns and stops it
+  get input(): MediaStreamTrack {
+    return this.inputTrack;
+  }
+
+  async start(): Promise<MediaStreamTrack> {
+    const { RnnoiseWorkletNode } = await import(
+      "@sapphi-red/web-noise-suppressor"
+    );
+    const wasmBinary = await loadWasm();
+    await this.context.audioWorklet.addModule(
+      `${ASSET_URL}/rnnoise/workletProcessor.js`
+    );
+
+    this.rnnoise = new RnnoiseWorkletNode(this.context, {
+      maxChannels: 1,
+      wasmBinary,
+    });
+    this.delay.delayTime.value = FRAME_DELAY_SEC;
+    this.rnnoise.connect(this.wet).connect(this.destination);
+    this.delay.connect(this.dry).connect(this.destination);
+    this.applyStrength(false);
+    this.attachInput();
+
+    // Created outside a click, the context may start suspended
+    await this.context.resume();
+
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  // A microphone switch only changes the input; the output track, and so
+  // every sender using it, stays the same
+  setInput(track: MediaStreamTrack): void {
+    this.inputTrack = track;
+    this.attachInput();
+  }
+
+  // 0 passes the microphone through, 1 is RNNoise alone
+  setStrength(strength: number): void {
+    this.strength = strength;
+    this.applyStrength(true);
+  }
+
+  stop(): void {
+    this.source?.disconnect();
+    this.rnnoise?.destroy();
+    this.destination.stream.getTracks().forEach((track) => track.stop());
+    this.context.close();
+  }
+
+  private attachInput(): void {
+    this.source?.disconnect();
+    this.source = this.context.createMediaStreamSource(
+      new MediaStream([this.inputTrack])
+    );
+    if (this.rnnoise) this.source.connect(this.rnnoise);
+    this.source.connect(this.delay);
+  }
+
+  private applyStrength(ramp: boolean): void {
+    const now = this.context.currentTime;
+    const levels: [GainNode, number][] = [
+      [this.wet, this.strength],
+      [this.dry, 1 - this.strength],
+    ];
+
+    for (const [node, level] of levels) {
+      if (ramp) {
+        node.gain.setTargetAtTime(level, now, STRENGTH_RAMP_SEC);
+      } else {
+        node.gain.value = level;
+      }
+    }
+  }
+}
@@ -2,22 +2,131 @@ import { io, Socket } from "socket.io-client";
 import {
   useGlobalState,
   Participant,
-  ConnectionStats,
+  DevicePreferences,
+  NoiseSuppressionSettings,
 } from "../state/globalState";
+import { rtcAPI } from "../api/api";
+import { E2EEManager } from "./e2eeManager";
+import { BackgroundEffect, BackgroundProcessor } from "./backgroundProcessor";
+import { NoiseSuppressor } from "./noiseSuppressor";
+import { annotationStore } from "./annotationStore";
+import { WhiteboardSync } from "./whiteboard";
+import type * as Y from "yjs";
+import { parseStreamId, toStreamId } from "@shared/signaling";
+import type {
+  Ack,
+  AnnotationPoint,
+  AnnotationTool,
+  ClientEvent,
+  ClientPayload,
+  ClientToServerEvents,
+  ExistingParticipant,
+  ServerPayload,
+  ServerToClientEvents,
+  TransportDirection,
+} from "@shared/signaling";
+
+// The SFU terminates one upstream ("publish") and one downstream ("subscribe")
+// connection per client; remote participants arrive as tracks on the latter.
+
+// Perfect negotiation state of one transport
+interface NegotiationState {
+  // The SFU can't roll back an offer, so the browser is the polite peer
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+}
+
+// Camera video is published as three simulcast layers; the SFU picks one per
+// viewer based on tile size and downlink. Rids must match the server's table.
+const SIMULCAST_ENCODINGS: RTCRtpEncodingParameters[] = [
+  { rid: "q", scaleResolutionDownBy: 4, maxBitrate: 150_000 },
+  { rid: "h", scaleResolutionDownBy: 2, maxBitrate: 500_000 },
+  { rid: "f", maxBitrate: 1_500_000 },
+];
+
+// Screen shares are a single full-resolution stream; text needs the bits
+const SCREEN_SHARE_ENCODING: RTCRtpEncodingParameters = {
+  maxBitrate: 2_500_000,
+};
+
+// A dropped transport is recovered with ICE restarts, backing off between
+// attempts, before it is torn down and negotiated from scratch. Restarts go
+// out after 1, 3, 7 and 11 s and the last one gets 4 s to work, so the
+// rebuild starts at 15 s with half of the server's 30 s RECONNECT_GRACE_MS
+// left before it drops the participant.
+const ICE_RESTART_BASE_DELAY_MS = 1000;
+const ICE_RESTART_MAX_DELAY_MS = 4000;
+const ICE_RESTART_MAX_ATTEMPTS = 4;
+
+// A timer firing this late means the machine was asleep; the socket may look
+// connected even though the server dropped it
+const WAKE_CHECK_INTERVAL_MS = 5000;
+const WAKE_DETECT_THRESHOLD_MS = 15000;
+
+// Codec names used by the meeting's videoCodecs preference
+const VIDEO_CODECS = ["VP8", "VP9", "H264", "AV1"];
+
+const toCodecName = (mimeType: string) =>
+  mimeType.replace(/^video\//i, "").toUpperCase();
+
+const CAMERA_CONSTRAINTS: MediaTrackConstraints = { width: 1280, height: 720 };
+
+type InputKind = "audioinput" | "videoinput";
+
+const trackKindOf = (kind: InputKind) =>
+  kind === "audioinput" ? "audio" : "video";
 
 class WebRTCService {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null =
+    null;
   private localStream: MediaStream | null = null;
-  private peerConnections: Map<string, RTCPeerConnection> = new Map();
+  private peerConnections: Map<TransportDirection, RTCPeerConnection> =
+    new Map();
   private remoteStreams: Map<string, MediaStream> = new Map();
   private statsInterval: NodeJS.Timeout | null = null;
-  private pendingOffers: Map<string, RTCSessionDescriptionInit> = new Map();
-  private pendingAnswers: Map<string, RTCSessionDescriptionInit> = new Map();
-  private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
-  private processingAnswers: Set<string> = new Set();
-  private processingOffers: Set<string> = new Set();
-  private processingTimeouts: Map<string, NodeJS.Timeout> = new Map();
-
+  private pendingCandidates: Map<TransportDirection, RTCIceCandidateInit[]> =
+    new Map();
+  private negotiation: Map<TransportDirection, NegotiationState> = new Map();
+  private iceRecovery: Map<
+    TransportDirection,
+    { attempts: number; timer?: ReturnType<typeof setTimeout> }
+  > = new Map();
+  private videoSizes: Map<string, { width: number; height: number }> =
+    new Map();
+  // Codecs the whole meeting can decode, in the host's order of preference
+  private videoCodecs: string[] = [];
+  // Remote tiles currently scrolled out of view or collapsed
+  private hiddenTiles: Set<string> = new Set();
+  private lastVisibilityReport = "";
+  // Set while in an end-to-end encrypted meeting
+  private e2ee: E2EEManager | null = null;
+  // Kept across resumes so safety numbers only change when someone really
+  // rejoins; the last number seen for each user tells when they did
+  private e2eeKeyPair: CryptoKeyPair | null = null;
+  private safetyNumbers: Map<string, string> = new Map();
+  // Issued on join; lets a reconnected socket take over our seat
+  private session: {
+    meetingId: string;
+    socketId: string;
+    token: string;
+  } | null = null;
+  // Set from losing the socket until the server answers our resume
+  private isResuming = false;
+  private wakeTimer: NodeJS.Timeout | null = null;
+  // Set while the camera background is blurred or replaced
+  private backgroundProcessor: BackgroundProcessor | null = null;
+  // Set while the microphone goes through noise suppression
+  private noiseSuppressor: NoiseSuppressor | null = null;
+  // Set while presenting; published on their own senders next to the
+  // camera and microphone
+  private screenStream: MediaStream | null = null;
+  private screenSenders: RTCRtpSender[] = [];
+  // Shared whiteboard of the meeting (none in encrypted meetings)
+  private whiteboard: WhiteboardSync | null = null;
+
+  // Replaced on join by the backend's STUN/TURN list with fresh credentials
   private configuration: RTCConfiguration = {
     iceServers: [
       { urls: "stun:stun.l.google.com:19302" },
@@ -41,7 +150,7 @@ class WebRTCService {
         transports: ["websocket", "polling"],
       });
 
-      this.socket.on("connect", () => {
+      this.socket.once("connect", () => {
         console.log("Connected to signaling server");
         this.setupSocketEventHandlers();
         resolve();
@@ -58,35 +167,93 @@ class WebRTCService {
   private setupSocketEventHandlers() {
     if (!this.socket) return;
 
+    // Reconnects get a new socket id; the session carries our seat over
+    this.socket.on("connect", () => {
+      console.log("🔌 Reconnected to signaling server");
+      this.resumeSession();
+    });
+
+    this.socket.on("disconnect", (reason) => {
+      console.warn(`🔌 Signaling connection lost: ${reason}`);
+      if (!this.session) return;
+
+      // Whatever was queued belongs to the old socket's transports
+      this.socket?.sendBuffer.splice(0);
+      this.isResuming = true;
+      this.updateReconnecting();
+
+      // The server dropped us, e.g. after our media missed its grace period.
+      // Socket.IO only retries by itself after network errors, so connect
+      // again; the expired session then falls back to joining anew.
+      if (reason === "io server disconnect") this.socket?.connect();
+    });
+
     // Room events
     this.socket.on(
       "room-info",
-      (data: { meetingId: string; participants: any[]; isHost: boolean }) => {
+      async (data: ServerPayload<"room-info">) => {
+        this.session = {
+          meetingId: data.meetingId,
+          socketId: this.socket!.id!,
+          token: data.sessionToken,
+        };
+        const wasResuming = this.isResuming;
+        this.isResuming = false;
+        this.updateReconnecting();
+
         useGlobalState.getState().setIsHost(data.isHost);
+        useGlobalState.getState().setIsRecording(data.isRecording);
+        this.videoCodecs = data.videoCodecs;
+
+        // Keys must exist before the first encrypted frame is sent
+        if (data.e2ee && !this.e2ee) {
+          await this.startE2EE();
+        }
+
+        // Start publishing once the server has attached us to the room
+        this.createPublishTransport();
+        this.reportVideoVisibility();
+        if (wasResuming) this.restoreMediaPreferences();
+
+        // Late joiners get the whole board and the chat backlog; a resumed
+        // session catches up on what it missed
+        if (!data.e2ee) {
+          this.syncWhiteboard();
+          this.loadChatHistory();
+        }
       }
     );
 
-    this.socket.on("existing-participants", (participants: any[]) => {
-      participants.forEach((participant) => {
-        console.log(
-          `➕ Adding existing participant: ${participant.socketId}`,
-          participant
-        );
-
-        // Add participant to global state
-        useGlobalState.getState().addParticipant({
-          id: participant.userId || participant.socketId,
-          name: participant.name || "Unknown User",
-          email: participant.email || "",
-          socketId: participant.socketId,
-          isAudioEnabled: participant.isAudioEnabled ?? true,
-          isVideoEnabled: participant.isVideoEnabled ?? true,
-          isScreenSharing: participant.isScreenSharing ?? false,
+    this.socket.on(
+      "existing-participants",
+      (participants: ExistingParticipant[]) => {
+        // Whoever isn't listed left while we were disconnected
+        if (this.isResuming) {
+          const present = new Set(participants.map((p) => p.socketId));
+          useGlobalState.getState().participants.forEach((_, socketId) => {
+            if (!present.has(socketId)) this.handleUserLeft(socketId);
+          });
+        }
+  
+        participants.forEach((participant) => {
+          console.log(
+            `➕ Adding existing participant: ${participant.socketId}`,
+            participant
+          );
+  
+          // Add participant to global state
+          useGlobalState.getState().addParticipant({
+            id: participant.userId || participant.socketId,
+            name: participant.name || "Unknown User",
+            email: participant.email || "",
+            socketId: participant.socketId,
+            isAudioEnabled: participant.isAudioEnabled ?? true,
+            isVideoEnabled: participant.isVideoEnabled ?? true,
+            isScreenSharing: participant.isScreenSharing ?? false,
+          });
         });
-
-        this.createPeerConnection(participant.socketId, false); // false = not initiator
-      });
-    });
+      }
+    );
 
     this.socket.on(
       "user-joined",
@@ -95,8 +262,11 @@ class WebRTCService {
         socketId: string;
         name?: string;
         email?: string;
+        isAudioEnabled: boolean;
+        isVideoEnabled: boolean;
       }) => {
         console.log(`👤 User joined: ${data.socketId}`, data);
+        this.e2ee?.handleParticipantJoined();
 
         // Add participant to global state
         useGlobalState.getState().addParticipant({
@@ -104,48 +274,104 @@ class WebRTCService {
           name: data.name || "Unknown User",
           email: data.email || "",
           socketId: data.socketId,
-          isAudioEnabled: true,
-          isVideoEnabled: true,
+          isAudioEnabled: data.isAudioEnabled,
+          isVideoEnabled: data.isVideoEnabled,
           isScreenSharing: false,
         });
-
-        this.createPeerConnection(data.socketId, true); // true = initiator
       }
     );
 
+    this.socket.on("user-left", (data: { socketId: string }) => {
+      this.handleUserLeft(data.socketId);
+    });
+
+    // A participant reconnected and carried its seat over to a new socket
     this.socket.on(
-      "user-left",
-      (data: { userId: string; socketId: string }) => {
-        this.handleUserLeft(data.socketId);
+      "participant-resumed",
+      (data: {
+        previousSocketId: string;
+        socketId: string;
+        userId: string;
+        name?: string;
+        email?: string;
+        isAudioEnabled: boolean;
+        isVideoEnabled: boolean;
+        isScreenSharing: boolean;
+      }) => {
+        console.log(`🔁 ${data.previousSocketId} resumed as ${data.socketId}`);
+        this.handleParticipantResumed(data);
       }
     );
 
-    // WebRTC signaling events
+    // WebRTC signaling events (the SFU offers on the subscribe transport
+    // and answers our offers on the publish transport)
     this.socket.on(
       "offer",
-      async (data: { from: string; offer: RTCSessionDescriptionInit }) => {
-        await this.handleOffer(data.from, data.offer);
+      async (data: { transport: TransportDirection; offer: RTCSessionDescriptionInit }) => {
+        await this.handleRemoteDescription(data.transport, data.offer);
       }
     );
 
     this.socket.on(
       "answer",
-      async (data: { from: string; answer: RTCSessionDescriptionInit }) => {
-        await this.handleAnswer(data.from, data.answer);
+      async (data: { transport: TransportDirection; answer: RTCSessionDescriptionInit }) => {
+        await this.handleRemoteDescription(data.transport, data.answer);
       }
     );
 
     this.socket.on(
       "ice-candidate",
-      async (data: { from: string; candidate: RTCIceCandidateInit }) => {
-        await this.handleIceCandidate(data.from, data.candidate);
+      async (data: {
+        transport: TransportDirection;
+        candidate: RTCIceCandidateInit;
+      }) => {
+        await this.handleIceCandidate(data.transport, data.candidate);
+      }
+    );
+
+    // End-to-end encryption key exchange, relayed by the server
+    this.socket.on(
+      "e2ee-public-key",
+      (data: { from: string; publicKey: string; to?: string }) => {
+        this.e2ee?.handlePublicKey(data);
+      }
+    );
+
+    this.socket.on(
+      "e2ee-key",
+      (data: { from: string; keyId: number; iv: string; key: string }) => {
+        this.e2ee?.handleKey(data);
       }
     );
 
+    // Someone joined or left who changes the codecs everyone can decode;
+    // renegotiate so subscribers get the new codec
+    this.socket.on("video-codecs-changed", (data: { videoCodecs: string[] }) => {
+      const changed = data.videoCodecs.join() !== this.videoCodecs.join();
+      this.videoCodecs = data.videoCodecs;
+
+      if (changed && this.peerConnections.has("publish")) {
+        console.log(`🎞️ Video codecs changed: ${data.videoCodecs.join(", ")}`);
+        this.renegotiateVideoCodecs();
+      }
+    });
+
+    // Our media node died and another took the meeting over. It knows
+    // nothing of our transports: publish again, and it offers the subscribe
+    // side on its own.
+    this.socket.on("media-node-changed", () => {
+      console.warn("⚠️ Media node changed, publishing again");
+      this.closeTransports();
+      this.updateReconnecting();
+      this.createPublishTransport();
+      this.reportVideoVisibility();
+      this.restoreMediaPreferences();
+    });
+
     // Media control events
     this.socket.on(
       "user-audio-toggled",
-      (data: { userId: string; socketId: string; enabled: boolean }) => {
+      (data: { socketId: string; enabled: boolean }) => {
         console.log(`🔊 Audio toggled for ${data.socketId}: ${data.enabled}`);
         useGlobalState.getState().updateParticipant(data.socketId, {
           isAudioEnabled: data.enabled,
@@ -155,7 +381,7 @@ class WebRTCService {
 
     this.socket.on(
       "user-video-toggled",
-      (data: { userId: string; socketId: string; enabled: boolean }) => {
+      (data: { socketId: string; enabled: boolean }) => {
         console.log(`🎥 Video toggled for ${data.socketId}: ${data.enabled}`);
         useGlobalState.getState().updateParticipant(data.socketId, {
           isVideoEnabled: data.enabled,
@@ -163,31 +389,187 @@ class WebRTCService {
       }
     );
 
-    // Connection stats
-    this.socket.on("connection-stats", (stats: ConnectionStats[]) => {
-      useGlobalState.getState().setConnectionStats(stats);
+    this.socket.on(
+      "user-screen-share-toggled",
+      (data: { socketId: string; enabled: boolean }) => {
+        console.log(`🖥️ Screen share toggled for ${data.socketId}: ${data.enabled}`);
+        if (!data.enabled) {
+          this.remoteStreams.delete(toStreamId(data.socketId, "screen"));
+          annotationStore.clear(data.socketId);
+        }
+        useGlobalState.getState().updateParticipant(data.socketId, {
+          isScreenSharing: data.enabled,
+          ...(!data.enabled && { screenStream: undefined }),
+        });
+      }
+    );
+
+    // Annotations on a screen share, which may be our own
+    this.socket.on("annotation-stroke", (data) => {
+      annotationStore.addPoints(
+        this.toParticipantKey(data.presenterId),
+        data.from,
+        data.strokeId,
+        data.tool,
+        data.points
+      );
     });
 
-    // Error handling
+    this.socket.on("annotation-pointer", (data) => {
+      annotationStore.setPointer(
+        this.toParticipantKey(data.presenterId),
+        data.from,
+        data.point
+      );
+    });
+
+    this.socket.on("annotation-clear", (data) => {
+      annotationStore.clear(this.toParticipantKey(data.presenterId));
+    });
+
+    this.socket.on("whiteboard-update", (data) => {
+      this.whiteboard?.applyRemote(data.update);
+    });
+
+    this.socket.on("chat-message", (message) => {
+      useGlobalState.getState().addChatMessages([message]);
+    });
+
+    // Active speaker events (our own socket id maps to the "local" tile)
+    this.socket.on(
+      "active-speaker-changed",
+      (data: { socketId: string }) => {
+        useGlobalState
+          .getState()
+          .setActiveSpeaker(this.toParticipantKey(data.socketId));
+      }
+    );
+
+    this.socket.on(
+      "audio-levels",
+      (data: { levels: Record<string, number> }) => {
+        const levels: Record<string, number> = {};
+        Object.entries(data.levels).forEach(([socketId, level]) => {
+          levels[this.toParticipantKey(socketId)] = level;
+        });
+        useGlobalState.getState().setAudioLevels(levels);
+      }
+    );
+
+    // Another participant's media dropped; the SFU keeps them in the room
+    // while they reconnect
+    this.socket.on(
+      "participant-connection",
+      (data: { socketId: string; state: "reconnecting" | "connected" }) => {
+        if (data.socketId === this.socket?.id) return;
+
+        console.log(`📶 ${data.socketId} is ${data.state}`);
+        useGlobalState.getState().updateParticipant(data.socketId, {
+          isReconnecting: data.state === "reconnecting",
+        });
+      }
+    );
+
+    // Last-N: only these participants' video is forwarded to us
+    this.socket.on("forwarded-video", (data: { socketIds: string[] }) => {
+      useGlobalState.getState().setForwardedVideo(data.socketIds);
+    });
+
+    // Recording events
+    this.socket.on("recording-started", (data: { recordingId: string }) => {
+      console.log(`⏺️ Recording started: ${data.recordingId}`);
+      useGlobalState.getState().setIsRecording(true);
+    });
+
+    this.socket.on("recording-stopped", (data: { recordingId: string }) => {
+      console.log(`⏹️ Recording stopped: ${data.recordingId}`);
+      useGlobalState.getState().setIsRecording(false);
+    });
+
+    // Failures of work the SFU does after acknowledging a request
     this.socket.on("error", (error: { message: string }) => {
       console.error("Socket error:", error);
     });
   }
 
-  // Get user media (camera and microphone)
+  // Send a request to the server. Rejections are logged and resolve with the
+  // ack, so callers can act on the error code.
+  private request<E extends ClientEvent>(
+    event: E,
+    payload: ClientPayload<E>
+  ): Promise<Ack<E>> {
+    return new Promise((resolve) => {
+      // Socket.IO can't match a generic event name to its listener type
+      const socket = this.socket as Socket | null;
+      if (!socket) {
+        resolve({
+          ok: false,
+          error: { code: "NOT_IN_MEETING", message: "Socket not connected" },
+        });
+        return;
+      }
+
+      socket.emit(event, payload, (result: Ack<E>) => {
+        if (!result.ok) {
+          console.warn(
+            `⚠️ ${event} rejected (${result.error.code}): ${result.error.message}`
+          );
+        }
+        resolve(result);
+      });
+    });
+  }
+
+  private toParticipantKey(socketId: string): string {
+    return socketId === this.socket?.id ? "local" : socketId;
+  }
+
+  // Get user media (camera and microphone), preferring the devices the user
+  // picked last time
   async getUserMedia(
     video: boolean = true,
     audio: boolean = true
   ): Promise<MediaStream> {
     try {
+      const { audioinput, videoinput } = this.getDevicePreferences();
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: video ? { width: 1280, height: 720 } : false,
-        audio: audio,
+        video: video
+          ? {
+              ...CAMERA_CONSTRAINTS,
+              deviceId: videoinput ? { ideal: videoinput } : undefined,
+            }
+          : false,
+        audio: audio
+          ? { deviceId: audioinput ? { ideal: audioinput } : undefined }
+          : false,
       });
 
       this.localStream = stream;
       useGlobalState.getState().setLocalStream(stream);
 
+      const { backgroundEffect, noiseSuppression } = useGlobalState.getState();
+      if (backgroundEffect.type !== "none") {
+        await this.setBackgroundEffect(backgroundEffect).catch((error) => {
+          console.error("Error applying background effect:", error);
+          useGlobalState.getState().setBackgroundEffect({ type: "none" });
+        });
+      }
+      if (noiseSuppression.enabled) {
+        await this.setNoiseSuppression(noiseSuppression).catch((error) => {
+          console.error("Error enabling noise suppression:", error);
+          useGlobalState
+            .getState()
+            .setNoiseSuppression({ ...noiseSuppression, enabled: false });
+        });
+      }
+
+      // Labels are only listed once permission is granted
+      await this.refreshDevices();
+      navigator.mediaDevices.addEventListener(
+        "devicechange",
+        this.handleDeviceChange
+      );
+
       return stream;
     } catch (error) {
       console.error("Error accessing media devices:", error);
@@ -195,12 +577,232 @@ class WebRTCService {
     }
   }
 
-  // Get screen share
-  async getScreenShare(): Promise<MediaStream> {
+  private getDevicePreferences(): DevicePreferences {
+    const { user, devicePreferences } = useGlobalState.getState();
+    return (user && devicePreferences[user.id]) || {};
+  }
+
+  private async refreshDevices(): Promise<MediaDeviceInfo[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    useGlobalState.getState().setMediaDevices(devices);
+    return devices;
+  }
+
+  // Switch camera or microphone mid-call and remember the choice
+  async switchDevice(kind: InputKind, deviceId: string): Promise<void> {
+    useGlobalState.getState().setDevicePreference(kind, deviceId);
+    await this.captureDevice(kind, deviceId);
+  }
+
+  // Remote tiles play through this speaker; the tiles apply it themselves
+  setAudioOutput(deviceId: string): void {
+    useGlobalState.getState().setDevicePreference("audiooutput", deviceId);
+  }
+
+  // The track captured from a device, behind any background processing
+  private getInputTrack(kind: InputKind): MediaStreamTrack | undefined {
+    if (kind === "videoinput" && this.backgroundProcessor) {
+      return this.backgroundProcessor.input;
+    }
+    if (kind === "audioinput" && this.noiseSuppressor) {
+      return this.noiseSuppressor.input;
+    }
+    return this.localStream
+      ?.getTracks()
+      .find((track) => track.kind === trackKindOf(kind));
+  }
+
+  // Swap a local track on every sender that carries it, which needs no
+  // renegotiation
+  private async replaceLocalTrack(
+    oldTrack: MediaStreamTrack | undefined,
+    newTrack: MediaStreamTrack
+  ): Promise<void> {
+    if (!this.localStream) return;
+
+    for (const peerConnection of this.peerConnections.values()) {
+      for (const sender of peerConnection.getSenders()) {
+        if (oldTrack && sender.track === oldTrack) {
+          await sender.replaceTrack(newTrack);
+        }
+      }
+    }
+
+    this.localStream = new MediaStream([
+      ...this.localStream.getTracks().filter((track) => track !== oldTrack),
+      newTrack,
+    ]);
+    useGlobalState.getState().setLocalStream(this.localStream);
+  }
+
+  // Capture from another device in place of the current one
+  private async captureDevice(
+    kind: InputKind,
+    deviceId: string
+  ): Promise<void> {
+    if (!this.localStream) return;
+
+    const trackKind = trackKindOf(kind);
+    const oldTrack = this.getInputTrack(kind);
+    if (
+      oldTrack?.readyState === "live" &&
+      oldTrack.getSettings().deviceId === deviceId
+    ) {
+      return;
+    }
+
+    const constraints = { deviceId: { exact: deviceId } };
+    const stream = await navigator.mediaDevices.getUserMedia(
+      trackKind === "video"
+        ? { video: { ...CAMERA_CONSTRAINTS, ...constraints } }
+        : { audio: constraints }
+    );
+    const [newTrack] = stream.getTracks();
+
+    // The processed track stays on the senders; only its input changes
+    if (trackKind === "video" && this.backgroundProcessor) {
+      await this.backgroundProcessor.setInput(newTrack);
+    } else if (trackKind === "audio" && this.noiseSuppressor) {
+      this.noiseSuppressor.setInput(newTrack);
+    } else {
+      const state = useGlobalState.getState();
+      newTrack.enabled =
+        trackKind === "video" ? state.isVideoEnabled : state.isAudioEnabled;
+      await this.replaceLocalTrack(oldTrack, newTrack);
+    }
+
+    oldTrack?.stop();
+    console.log(`🎚️ Switched ${trackKind} to ${newTrack.label || deviceId}`);
+  }
+
+  // A device was plugged in or removed: go back to the preferred device if
+  // it reappeared, or off the current one if it went away
+  private handleDeviceChange = async (): Promise<void> => {
+    const devices = await this.refreshDevices();
+    if (!this.localStream) return;
+
+    const preferences = this.getDevicePreferences();
+    for (const kind of ["audioinput", "videoinput"] as const) {
+      const track = this.getInputTrack(kind);
+      if (!track) continue;
+
+      const available = devices.filter(
+        (device) => device.kind === kind && device.deviceId
+      );
+      const current = track.getSettings().deviceId;
+      const preferred = available.find(
+        (device) => device.deviceId === preferences[kind]
+      );
+      const isGone =
+        track.readyState === "ended" ||
+        !available.some((device) => device.deviceId === current);
+
+      const target = preferred || (isGone ? available[0] : undefined);
+      if (!target || target.deviceId === current) continue;
+
+      try {
+        await this.captureDevice(kind, target.deviceId);
+      } catch (error) {
+        console.error(`Error switching to ${target.label}:`, error);
+      }
+    }
+  };
+
+  // Blur or replace the camera background. The processed track takes the
+  // camera's place in the local stream and on the senders.
+  async setBackgroundEffect(effect: BackgroundEffect): Promise<void> {
+    const state = useGlobalState.getState();
+    const processor = this.backgroundProcessor;
+
+    if (processor && effect.type !== "none") {
+      await processor.setEffect(effect);
+    } else if (processor) {
+      // Back to the plain camera
+      const output = this.localStream?.getVideoTracks()[0];
+      this.backgroundProcessor = null;
+      processor.input.enabled = output?.enabled ?? state.isVideoEnabled;
+      await this.replaceLocalTrack(output, processor.input);
+      processor.stop();
+    } else if (effect.type !== "none") {
+      const camera = this.localStream?.getVideoTracks()[0];
+      if (camera) {
+        const newProcessor = new BackgroundProcessor(camera, effect);
+        const output = await newProcessor.start();
+        if (this.localStream?.getVideoTracks()[0] !== camera) {
+          newProcessor.stop();
+          return;
+        }
+
+        // Turning video off disables the output; the model keeps its input
+        output.enabled = camera.enabled;
+        camera.enabled = true;
+        this.backgroundProcessor = newProcessor;
+        await this.replaceLocalTrack(camera, output);
+      }
+    }
+
+    state.setBackgroundEffect(effect);
+    console.log(`🎭 Background effect: ${effect.type}`);
+  }
+
+  // Run the microphone through RNNoise. Like background effects, the
+  // processed track replaces the microphone on the senders; muting disables
+  // the processed track.
+  async setNoiseSuppression(settings: NoiseSuppressionSettings): Promise<void> {
+    const state = useGlobalState.getState();
+    const suppressor = this.noiseSuppressor;
+
+    if (suppressor && settings.enabled) {
+      suppressor.setStrength(settings.strength);
+    } else if (suppressor) {
+      const output = this.localStream?.getAudioTracks()[0];
+      this.noiseSuppressor = null;
+      suppressor.input.enabled = output?.enabled ?? state.isAudioEnabled;
+      await this.replaceLocalTrack(output, suppressor.input);
+      suppressor.stop();
+    } else if (settings.enabled) {
+      const microphone = this.localStream?.getAudioTracks()[0];
+      if (microphone) {
+        const newSuppressor = new NoiseSuppressor(
+          microphone,
+          settings.strength
+        );
+        const output = await newSuppressor.start();
+        if (this.localStream?.getAudioTracks()[0] !== microphone) {
+          newSuppressor.stop();
+          return;
+        }
+
+        output.enabled = microphone.enabled;
+        microphone.enabled = true;
+        this.noiseSuppressor = newSuppressor;
+        await this.replaceLocalTrack(microphone, output);
+      }
+    }
+
+    state.setNoiseSuppression(settings);
+  }
+
+  // Get screen share, optionally with the tab's or system's audio (the
+  // browser decides which sources can share it)
+  async getScreenShare(withAudio = false): Promise<MediaStream> {
     try {
       const stream = await navigator.mediaDevices.getDisplayMedia({
         video: true,
-        audio: true,
+        // Speech processing would mangle music and video soundtracks
+        audio: withAudio && {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+
+      // Favor sharp text over smooth motion when bandwidth is short
+      stream.getVideoTracks().forEach((track) => {
+        track.contentHint = "detail";
+      });
+      stream.getAudioTracks().forEach((track) => {
+        track.contentHint = "music";
       });
 
       return stream;
@@ -214,41 +816,223 @@ class WebRTCService {
   async joinMeeting(meetingId: string): Promise<void> {
     if (!this.socket) throw new Error("Socket not connected");
 
-    this.socket.emit("join-meeting", { meetingId });
+    if (
+      useGlobalState.getState().currentMeeting?.e2ee &&
+      !E2EEManager.isSupported()
+    ) {
+      throw new Error("This browser can't join end-to-end encrypted meetings");
+    }
+
+    await this.loadIceServers();
+
+    // Mic and camera state chosen in the lobby, so nobody sees us enabled
+    // for a moment
+    const { isAudioEnabled, isVideoEnabled } = useGlobalState.getState();
+    const result = await this.request("join-meeting", {
+      meetingId,
+      receiveCodecs: this.getReceiveCodecs(),
+      isAudioEnabled,
+      isVideoEnabled,
+    });
+    if (!result.ok) throw new Error(result.error.message);
+
+    document.addEventListener("visibilitychange", this.reportVideoVisibility);
 
     // Start periodic stats collection
     this.startStatsCollection();
+    this.startWakeDetection();
+  }
+
+  // Take our seat over from the previous socket; transports are rebuilt
+  // because the SFU attaches media to socket ids
+  private async resumeSession(): Promise<void> {
+    if (!this.socket || !this.session) return;
+
+    console.log(`🔁 Resuming meeting session of ${this.session.socketId}`);
+    this.isResuming = true;
+    this.resetMediaSession();
+    // The new transports may outlive the credentials fetched at join
+    await this.loadIceServers();
+
+    const { isAudioEnabled, isVideoEnabled } = useGlobalState.getState();
+    const result = await this.request("resume-session", {
+      meetingId: this.session.meetingId,
+      previousSocketId: this.session.socketId,
+      sessionToken: this.session.token,
+      receiveCodecs: this.getReceiveCodecs(),
+      isAudioEnabled,
+      isVideoEnabled,
+    });
+
+    if (!result.ok && result.error.code === "SESSION_EXPIRED") {
+      console.warn("⚠️ Meeting session expired, joining again");
+      await this.rejoinMeeting();
+    }
+  }
+
+  // The seat is gone; join again as a new participant
+  private async rejoinMeeting(): Promise<void> {
+    const meetingId = this.session?.meetingId;
+    if (!this.socket || !meetingId) return;
+
+    this.isResuming = false;
+    this.resetMediaSession();
+    this.session = null;
+    // A new participant gets new keys
+    this.e2eeKeyPair = null;
+
+    const state = useGlobalState.getState();
+    state.participants.forEach((_, socketId) => this.handleUserLeft(socketId));
+
+    await this.loadIceServers();
+    const { isAudioEnabled, isVideoEnabled } = useGlobalState.getState();
+    await this.request("join-meeting", {
+      meetingId,
+      receiveCodecs: this.getReceiveCodecs(),
+      isAudioEnabled,
+      isVideoEnabled,
+    });
+  }
+
+  // Drop transports and encryption state tied to the previous socket
+  private resetMediaSession(): void {
+    this.closeTransports();
+
+    if (this.e2ee) {
+      this.e2ee.stop();
+      this.e2ee = null;
+      const { iceServers } = this.configuration;
+      this.configuration = { iceServers };
+    }
+  }
+
+  private closeTransports(): void {
+    this.peerConnections.forEach((peerConnection) => peerConnection.close());
+    this.peerConnections.clear();
+    this.pendingCandidates.clear();
+    this.negotiation.clear();
+    this.iceRecovery.forEach((_, direction) => this.clearIceRecovery(direction));
+    this.remoteStreams.clear();
+    this.lastVisibilityReport = "";
+  }
+
+  // The SFU keeps tile sizes and pins per socket; report them again
+  private restoreMediaPreferences(): void {
+    this.videoSizes.forEach((size, socketId) => {
+      this.request("video-size", { socketId, ...size });
+    });
+
+    const { pinnedParticipants } = useGlobalState.getState();
+    if (pinnedParticipants.length > 0) {
+      this.request("pin-participants", { socketIds: pinnedParticipants });
+    }
   }
 
-  // Create peer connection
-  private async createPeerConnection(
-    socketId: string,
-    isInitiator: boolean
-  ): Promise<RTCPeerConnection> {
+  private startWakeDetection(): void {
+    if (this.wakeTimer) clearInterval(this.wakeTimer);
+
+    let lastCheck = Date.now();
+    this.wakeTimer = setInterval(() => {
+      const elapsed = Date.now() - lastCheck;
+      lastCheck = Date.now();
+
+      if (elapsed > WAKE_DETECT_THRESHOLD_MS && this.socket?.connected) {
+        console.log(`💤 Woke up after ${Math.round(elapsed / 1000)}s, reconnecting`);
+        // Closing the transport (not the socket) lets the manager reconnect
+        this.socket.io.engine.close();
+      }
+    }, WAKE_CHECK_INTERVAL_MS);
+  }
+
+  // TURN credentials are short-lived, so they are fetched for every join
+  private async loadIceServers() {
+    try {
+      const response = await rtcAPI.getIceServers();
+      const iceServers: RTCIceServer[] = response.data.iceServers;
+      if (iceServers?.length) {
+        this.configuration = { ...this.configuration, iceServers };
+      }
+    } catch (error) {
+      console.error("Failed to load ICE servers, using STUN only:", error);
+    }
+  }
+
+  private async startE2EE(): Promise<void> {
+    this.e2ee = new E2EEManager(
+      (event, data) => this.request(event, data),
+      (socketId, safetyNumber) => this.updateSafetyNumber(socketId, safetyNumber)
+    );
+    if (E2EEManager.needsInsertableStreams) {
+      this.configuration = {
+        ...this.configuration,
+        encodedInsertableStreams: true,
+      } as RTCConfiguration;
+    }
+
+    this.e2eeKeyPair = await this.e2ee.start(this.e2eeKeyPair || undefined);
+    console.log("🔐 End-to-end encryption enabled");
+  }
+
+  private updateSafetyNumber(socketId: string, safetyNumber: string): void {
+    const participant = useGlobalState.getState().participants.get(socketId);
+    if (!participant) return;
+
+    const previous = this.safetyNumbers.get(participant.id);
+    this.safetyNumbers.set(participant.id, safetyNumber);
+    if (previous && previous !== safetyNumber) {
+      console.warn(`🔐 Safety number of ${socketId} changed`);
+    }
+
+    useGlobalState.getState().updateParticipant(socketId, {
+      safetyNumber,
+      safetyNumberChanged:
+        participant.safetyNumberChanged ||
+        (!!previous && previous !== safetyNumber),
+    });
+  }
+
+  // Create a transport to the SFU
+  private createPeerConnection(
+    direction: TransportDirection
+  ): RTCPeerConnection {
     // Check if peer connection already exists
-    const existingConnection = this.peerConnections.get(socketId);
+    const existingConnection = this.peerConnections.get(direction);
     if (existingConnection) {
-      console.log(
-        `Peer connection already exists for ${socketId}, closing old one`
-      );
+      console.log(`${direction} transport already exists, closing old one`);
       existingConnection.close();
     }
 
     const peerConnection = new RTCPeerConnection(this.configuration);
-    this.peerConnections.set(socketId, peerConnection);
+    this.peerConnections.set(direction, peerConnection);
+    this.negotiation.set(direction, {
+      polite: true,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+    });
 
-    // Add local stream to peer connection
-    if (this.localStream) {
-      this.localStream.getTracks().forEach((track) => {
-        peerConnection.addTrack(track, this.localStream!);
-      });
-    }
+    // Any change to the publish transport (adding a track, an ICE restart)
+    // is offered to the SFU, which only accepts offers for publishing
+    peerConnection.onnegotiationneeded = () => {
+      if (direction === "publish") {
+        this.sendOffer(direction, peerConnection);
+      }
+    };
 
-    // Handle remote stream
+    // The SFU names remote streams after the publisher's socket id, with
+    // screen shares in a stream of their own
     peerConnection.ontrack = (event) => {
       const [remoteStream] = event.streams;
-      console.log(`🎥 Received remote stream from ${socketId}:`, remoteStream);
-      this.remoteStreams.set(socketId, remoteStream);
+      if (!remoteStream) return;
+
+      const { socketId, source } = parseStreamId(remoteStream.id);
+      console.log(`🎥 Received ${source} stream from ${socketId}:`, remoteStream);
+      this.e2ee?.attachReceiver(event.receiver, socketId);
+      this.remoteStreams.set(remoteStream.id, remoteStream);
+      const update =
+        source === "screen"
+          ? { screenStream: remoteStream }
+          : { stream: remoteStream };
 
       // Update participant with stream (with retry logic)
       const updateParticipantWithStream = () => {
@@ -256,9 +1040,9 @@ class WebRTCService {
         const participant = state.participants.get(socketId);
 
         if (participant) {
-          console.log(`✅ Updating participant ${socketId} with stream`);
-          state.updateParticipant(socketId, { stream: remoteStream });
-        } else {
+          console.log(`✅ Updating participant ${socketId} with ${source} stream`);
+          state.updateParticipant(socketId, update);
+        } else if (this.remoteStreams.get(remoteStream.id) === remoteStream) {
           console.warn(
             `⚠️ Participant ${socketId} not found, retrying in 500ms`
           );
@@ -273,454 +1057,500 @@ class WebRTCService {
     // Handle ICE candidates
     peerConnection.onicecandidate = (event) => {
       if (event.candidate && this.socket) {
-        this.socket.emit("ice-candidate", {
-          to: socketId,
-          candidate: event.candidate,
+        this.request("ice-candidate", {
+          transport: direction,
+          candidate: event.candidate.toJSON(),
         });
       }
     };
 
     // Handle connection state changes
     peerConnection.onconnectionstatechange = () => {
-      console.log(
-        `Connection state with ${socketId}:`,
-        peerConnection.connectionState
-      );
-
-      // Clean up failed connections
-      if (peerConnection.connectionState === "failed") {
-        console.log(`Connection failed for ${socketId}, cleaning up`);
-        this.handleUserLeft(socketId);
+      const { connectionState } = peerConnection;
+      console.log(`${direction} transport state:`, connectionState);
+      if (this.peerConnections.get(direction) !== peerConnection) return;
+
+      if (connectionState === "disconnected" || connectionState === "failed") {
+        this.scheduleIceRestart(direction);
+      } else if (connectionState === "connected") {
+        this.clearIceRecovery(direction);
       }
+      this.updateReconnecting();
     };
 
     // Handle signaling state changes for debugging
     peerConnection.onsignalingstatechange = () => {
       console.log(
-        `Signaling state with ${socketId}:`,
+        `${direction} transport signaling state:`,
         peerConnection.signalingState
       );
     };
 
-    // Create offer if initiator (with retry logic)
-    if (isInitiator) {
-      try {
-        const offer = await peerConnection.createOffer();
-        await peerConnection.setLocalDescription(offer);
-
-        if (this.socket) {
-          this.socket.emit("offer", { to: socketId, offer });
-        }
-      } catch (error) {
-        console.error(`Error creating offer for ${socketId}:`, error);
-        peerConnection.close();
-        this.peerConnections.delete(socketId);
-        throw error;
-      }
-    } else {
-      // If not initiator, check for pending messages
-      const pendingAnswer = this.pendingAnswers.get(socketId);
-      if (pendingAnswer && !this.processingAnswers.has(socketId)) {
-        console.log(`🔄 Processing pending answer for ${socketId}`);
-        this.pendingAnswers.delete(socketId);
-        // Process the pending answer
-        setTimeout(() => this.handleAnswer(socketId, pendingAnswer), 100);
-      }
-
-      const pendingOffer = this.pendingOffers.get(socketId);
-      if (pendingOffer && !this.processingOffers.has(socketId)) {
-        console.log(`🔄 Processing pending offer for ${socketId}`);
-        this.pendingOffers.delete(socketId);
-        // Process the pending offer
-        setTimeout(() => this.handleOffer(socketId, pendingOffer), 100);
-      }
-    }
-
-    return peerConnection;
-  }
-
-  // Handle incoming offer
-  private async handleOffer(
-    socketId: string,
-    offer: RTCSessionDescriptionInit
-  ): Promise<void> {
-    console.log(`📨 Received offer from ${socketId}`);
-
-    // Prevent concurrent processing of offers for the same socket
-    if (this.processingOffers.has(socketId)) {
-      console.warn(
-        `⚠️ Already processing offer for ${socketId}, queuing this one`
-      );
-      this.pendingOffers.set(socketId, offer);
-      return;
-    }
-
-    this.processingOffers.add(socketId);
-
-    // Set a timeout to prevent deadlocks
-    const timeout = setTimeout(() => {
-      console.warn(
-        `⚠️ Offer processing timeout for ${socketId}, removing from processing set`
-      );
-      this.processingOffers.delete(socketId);
-      this.processingTimeouts.delete(socketId);
-    }, 5000); // 5 second timeout
-
-    this.processingTimeouts.set(socketId, timeout);
-
-    try {
-      let peerConnection = this.peerConnections.get(socketId);
-
-      if (!peerConnection) {
-        console.log(`🆕 Creating new peer connection for ${socketId}`);
-        peerConnection = await this.createPeerConnection(socketId, false);
-      }
-
-      console.log(
-        `📊 Current signaling state for ${socketId}: ${peerConnection.signalingState}, connection state: ${peerConnection.connectionState}`
-      );
-
-      // Check if we have a local offer pending (offer collision)
-      if (peerConnection.signalingState === "have-local-offer") {
-        console.log(
-          `⚡ Offer collision detected with ${socketId}, handling as answerer`
-        );
-        // Remove the existing peer connection and create a new one as answerer
-        peerConnection.close();
-        peerConnection = await this.createPeerConnection(socketId, false);
-      }
-
-      // Only proceed if we're in a valid state to receive an offer
-      if (peerConnection.signalingState === "stable") {
-        console.log(
-          `✅ About to set remote description (offer) for ${socketId}`
-        );
-
-        // Final state check right before the critical operation
-        if (peerConnection.signalingState !== "stable") {
-          console.warn(
-            `❌ State changed during offer processing for ${socketId}, now: ${peerConnection.signalingState}`
-          );
-          this.pendingOffers.set(socketId, offer);
-          return;
-        }
+    return peerConnection;
+  }
 
-        if (peerConnection.remoteDescription) {
-          console.warn(
-            `❌ Remote description already exists for ${socketId}, ignoring offer`
-          );
-          return;
-        }
+  // Publish local tracks to the SFU; adding them triggers the offer
+  private createPublishTransport(): void {
+    const peerConnection = this.createPeerConnection("publish");
 
-        await peerConnection.setRemoteDescription(offer);
-        console.log(`✅ Creating answer for ${socketId}`);
+    if (this.localStream) {
+      this.localStream.getTracks().forEach((track) => {
+        const transceiver = peerConnection.addTransceiver(track, {
+          direction: "sendonly",
+          streams: [this.localStream!],
+          sendEncodings:
+            track.kind === "video" ? SIMULCAST_ENCODINGS : undefined,
+        });
 
-        // Check state again before creating answer
-        if (peerConnection.signalingState !== "have-remote-offer") {
-          console.warn(
-            `❌ Unexpected state after setting remote offer for ${socketId}: ${peerConnection.signalingState}`
-          );
-          return;
+        if (track.kind === "video") {
+          this.applyCodecPreferences(transceiver);
         }
+        this.e2ee?.attachSender(transceiver.sender);
+      });
+    }
 
-        const answer = await peerConnection.createAnswer();
-        console.log(
-          `✅ About to set local description (answer) for ${socketId}`
-        );
-
-        // Final state check before setting local description
-        if (peerConnection.signalingState !== "have-remote-offer") {
-          console.warn(
-            `❌ State changed before setting local answer for ${socketId}: ${peerConnection.signalingState}`
-          );
-          return;
-        }
+    this.publishScreenShare();
+  }
 
-        if (peerConnection.localDescription) {
-          console.warn(
-            `❌ Local description already exists for ${socketId}, not setting answer`
-          );
-          return;
-        }
+  // Add the screen share (and its audio) to the publish transport as
+  // separate tracks; the offer this triggers tells the SFU which stream is
+  // the screen
+  private publishScreenShare(): void {
+    const peerConnection = this.peerConnections.get("publish");
+    if (!peerConnection || !this.screenStream) return;
+
+    this.screenSenders = this.screenStream.getTracks().map((track) => {
+      const transceiver = peerConnection.addTransceiver(track, {
+        direction: "sendonly",
+        streams: [this.screenStream!],
+        sendEncodings:
+          track.kind === "video" ? [SCREEN_SHARE_ENCODING] : undefined,
+      });
 
-        await peerConnection.setLocalDescription(answer);
-        console.log(
-          `✅ Successfully set local description (answer) for ${socketId}`
-        );
+      if (track.kind === "video") {
+        this.applyCodecPreferences(transceiver);
+      }
+      this.e2ee?.attachSender(transceiver.sender);
+      return transceiver.sender;
+    });
+  }
 
-        if (this.socket) {
-          console.log(`📤 Sending answer to ${socketId}`);
-          this.socket.emit("answer", { to: socketId, answer });
-        }
+  private async sendOffer(
+    direction: TransportDirection,
+    peerConnection: RTCPeerConnection
+  ): Promise<void> {
+    const state = this.negotiation.get(direction);
+    if (!state || this.peerConnections.get(direction) !== peerConnection) {
+      return;
+    }
 
-        // Process any pending ICE candidates
-        this.processPendingCandidates(socketId);
-      } else {
-        console.warn(
-          `❌ Cannot handle offer from ${socketId}, wrong signaling state: ${peerConnection.signalingState}`
-        );
-        this.pendingOffers.set(socketId, offer);
+    try {
+      state.makingOffer = true;
+      await peerConnection.setLocalDescription();
+
+      // Only the publish transport is ours to offer
+      if (direction === "publish" && peerConnection.localDescription) {
+        this.request("offer", {
+          transport: direction,
+          offer: { type: "offer", sdp: peerConnection.localDescription.sdp },
+          screenStreamId: this.screenStream?.id,
+        });
       }
     } catch (error) {
-      console.error(`❌ Error handling offer from ${socketId}:`, error);
-
-      // Don't immediately close on error - might be recoverable
-      if (error.message.includes("Called in wrong state")) {
-        console.log(`🔄 Storing offer for ${socketId} to retry later`);
-        this.pendingOffers.set(socketId, offer);
-      } else {
-        // Close only on non-recoverable errors
-        console.log(`💀 Closing failed connection for ${socketId}`);
-        const peerConnection = this.peerConnections.get(socketId);
-        if (peerConnection) {
-          peerConnection.close();
-          this.peerConnections.delete(socketId);
-        }
-      }
+      console.error(`❌ Error creating ${direction} offer:`, error);
     } finally {
-      // Always remove from processing set and clear timeout
-      this.processingOffers.delete(socketId);
-      const timeout = this.processingTimeouts.get(socketId);
-      if (timeout) {
-        clearTimeout(timeout);
-        this.processingTimeouts.delete(socketId);
-      }
+      state.makingOffer = false;
     }
   }
 
-  // Handle incoming answer
-  private async handleAnswer(
-    socketId: string,
-    answer: RTCSessionDescriptionInit
-  ): Promise<void> {
-    console.log(`🔄 Received answer from ${socketId}`);
+  // Video codecs this browser can decode, reported to the server on join
+  private getReceiveCodecs(): string[] {
+    const capabilities =
+      typeof RTCRtpReceiver.getCapabilities === "function"
+        ? RTCRtpReceiver.getCapabilities("video")?.codecs || []
+        : [];
 
-    // Prevent concurrent processing of answers for the same socket
-    if (this.processingAnswers.has(socketId)) {
-      console.warn(
-        `⚠️ Already processing answer for ${socketId}, queuing this one`
-      );
-      this.pendingAnswers.set(socketId, answer);
-      return;
-    }
+    return VIDEO_CODECS.filter((name) =>
+      capabilities.some((codec) => toCodecName(codec.mimeType) === name)
+    );
+  }
 
-    this.processingAnswers.add(socketId);
+  // Put the meeting's codecs first, skipping any this browser can't encode;
+  // the remaining codecs stay as fallbacks in the browser's default order
+  private applyCodecPreferences(transceiver: RTCRtpTransceiver): void {
+    if (typeof transceiver.setCodecPreferences !== "function") return;
 
-    // Set a timeout to prevent deadlocks
-    const timeout = setTimeout(() => {
-      console.warn(
-        `⚠️ Processing timeout for ${socketId}, removing from processing set`
-      );
-      this.processingAnswers.delete(socketId);
-      this.processingTimeouts.delete(socketId);
-    }, 5000); // 5 second timeout
+    const receiveCodecs = RTCRtpReceiver.getCapabilities("video")?.codecs || [];
+    const sendCodecs = RTCRtpSender.getCapabilities("video")?.codecs || [];
+    const canEncode = (name: string) =>
+      sendCodecs.some((codec) => toCodecName(codec.mimeType) === name);
 
-    this.processingTimeouts.set(socketId, timeout);
+    const preferred = this.videoCodecs
+      .filter(canEncode)
+      .flatMap((name) =>
+        receiveCodecs.filter((codec) => toCodecName(codec.mimeType) === name)
+      );
+    if (preferred.length === 0) return;
 
     try {
-      const peerConnection = this.peerConnections.get(socketId);
+      transceiver.setCodecPreferences([
+        ...preferred,
+        ...receiveCodecs.filter((codec) => !preferred.includes(codec)),
+      ]);
+    } catch (error) {
+      console.warn("⚠️ Could not apply codec preferences:", error);
+    }
+  }
 
-      if (!peerConnection) {
-        console.warn(
-          `❌ No peer connection found for ${socketId}, storing answer for later`
-        );
-        this.pendingAnswers.set(socketId, answer);
-        return;
+  // Reorder the codecs of the published video in place. Codec preferences
+  // don't fire negotiationneeded, so the offer is sent here, once any
+  // negotiation in flight has settled.
+  private renegotiateVideoCodecs(): void {
+    const peerConnection = this.peerConnections.get("publish");
+    if (!peerConnection) return;
+
+    peerConnection.getTransceivers().forEach((transceiver) => {
+      if (
+        transceiver.receiver.track.kind === "video" &&
+        transceiver.currentDirection !== "stopped"
+      ) {
+        this.applyCodecPreferences(transceiver);
       }
+    });
 
-      console.log(
-        `📊 Current signaling state for ${socketId}: ${peerConnection.signalingState}, connection state: ${peerConnection.connectionState}`
+    const offerWhenStable = () => {
+      if (
+        peerConnection.signalingState !== "stable" ||
+        this.negotiation.get("publish")?.makingOffer
+      ) {
+        return;
+      }
+      peerConnection.removeEventListener(
+        "signalingstatechange",
+        offerWhenStable
       );
+      this.sendOffer("publish", peerConnection);
+    };
+    peerConnection.addEventListener("signalingstatechange", offerWhenStable);
+    offerWhenStable();
+  }
 
-      // Check if we already have a remote description (duplicate answer)
-      if (peerConnection.remoteDescription) {
-        console.warn(
-          `⚠️ Already have remote description for ${socketId}, ignoring duplicate answer`
-        );
+  // Apply an offer or answer from the SFU. An offer that collides with our
+  // own is taken by rolling ours back (setRemoteDescription does that
+  // implicitly); an impolite peer would ignore it instead.
+  private async handleRemoteDescription(
+    direction: TransportDirection,
+    description: RTCSessionDescriptionInit
+  ): Promise<void> {
+    console.log(`📨 Received ${direction} ${description.type} from SFU`);
+
+    const peerConnection =
+      this.peerConnections.get(direction) ||
+      (description.type === "offer"
+        ? this.createPeerConnection(direction)
+        : undefined);
+    const state = this.negotiation.get(direction);
+    if (!peerConnection || !state) {
+      console.warn(`⚠️ Ignoring ${direction} ${description.type}, no transport`);
+      return;
+    }
+
+    try {
+      const readyForOffer =
+        !state.makingOffer &&
+        (peerConnection.signalingState === "stable" ||
+          state.isSettingRemoteAnswerPending);
+      const offerCollision = description.type === "offer" && !readyForOffer;
+
+      state.ignoreOffer = !state.polite && offerCollision;
+      if (state.ignoreOffer) {
+        console.warn(`⚠️ Ignoring colliding ${direction} offer`);
         return;
       }
 
-      // Only set remote description if we're in the correct state
-      if (peerConnection.signalingState === "have-local-offer") {
-        console.log(`✅ About to set remote description for ${socketId}`);
+      state.isSettingRemoteAnswerPending = description.type === "answer";
+      await peerConnection.setRemoteDescription(description);
+      state.isSettingRemoteAnswerPending = false;
 
-        // Final state check right before the critical operation
-        if (peerConnection.signalingState !== "have-local-offer") {
-          console.warn(
-            `❌ State changed during processing for ${socketId}, now: ${peerConnection.signalingState}`
-          );
-          this.pendingAnswers.set(socketId, answer);
-          return;
-        }
+      if (description.type === "offer") {
+        await peerConnection.setLocalDescription();
 
-        if (peerConnection.remoteDescription) {
-          console.warn(
-            `❌ Remote description appeared during processing for ${socketId}, ignoring`
-          );
-          return;
+        if (direction === "subscribe" && peerConnection.localDescription) {
+          this.request("answer", {
+            transport: direction,
+            answer: { type: "answer", sdp: peerConnection.localDescription.sdp },
+          });
         }
-
-        await peerConnection.setRemoteDescription(answer);
-        console.log(`✅ Successfully set remote answer for ${socketId}`);
-
-        // Process any pending ICE candidates
-        this.processPendingCandidates(socketId);
-      } else if (peerConnection.signalingState === "stable") {
-        console.warn(
-          `⚠️ Peer connection ${socketId} is already in stable state - answer may be duplicate`
-        );
-      } else {
-        console.warn(
-          `❌ Cannot set remote answer from ${socketId}, wrong signaling state: ${peerConnection.signalingState}`
-        );
-        // Store for later if connection is still negotiating
-        this.pendingAnswers.set(socketId, answer);
       }
+
+      this.processPendingCandidates(direction);
     } catch (error) {
-      console.error(`❌ Error handling answer from ${socketId}:`, error);
-
-      // Don't immediately close on error - might be recoverable
-      if (error.message.includes("Called in wrong state")) {
-        console.log(`🔄 Storing answer for ${socketId} to retry later`);
-        this.pendingAnswers.set(socketId, answer);
-      } else {
-        // Close only on non-recoverable errors
-        console.log(`💀 Closing failed connection for ${socketId}`);
-        const peerConnection = this.peerConnections.get(socketId);
-        if (peerConnection) {
-          peerConnection.close();
-          this.peerConnections.delete(socketId);
-        }
-      }
-    } finally {
-      // Always remove from processing set and clear timeout
-      this.processingAnswers.delete(socketId);
-      const timeout = this.processingTimeouts.get(socketId);
-      if (timeout) {
-        clearTimeout(timeout);
-        this.processingTimeouts.delete(socketId);
-      }
+      state.isSettingRemoteAnswerPending = false;
+      console.error(`❌ Error handling ${direction} ${description.type}:`, error);
     }
   }
 
   // Handle ICE candidate
   private async handleIceCandidate(
-    socketId: string,
+    direction: TransportDirection,
     candidate: RTCIceCandidateInit
   ): Promise<void> {
-    const peerConnection = this.peerConnections.get(socketId);
+    const peerConnection = this.peerConnections.get(direction);
 
-    if (!peerConnection) {
-      console.warn(
-        `❌ No peer connection found for ICE candidate from ${socketId}, storing for later`
-      );
-      // Store candidate for when connection is established
-      if (!this.pendingCandidates.has(socketId)) {
-        this.pendingCandidates.set(socketId, []);
+    // Only add ICE candidates if we have a remote description
+    if (!peerConnection || !peerConnection.remoteDescription) {
+      if (!this.pendingCandidates.has(direction)) {
+        this.pendingCandidates.set(direction, []);
       }
-      this.pendingCandidates.get(socketId)!.push(candidate);
+      this.pendingCandidates.get(direction)!.push(candidate);
       return;
     }
 
     try {
-      // Only add ICE candidates if we have a remote description
-      if (peerConnection.remoteDescription) {
-        await peerConnection.addIceCandidate(candidate);
-        console.log(`✅ Added ICE candidate for ${socketId}`);
-      } else {
-        console.warn(
-          `⚠️ Cannot add ICE candidate for ${socketId}: no remote description, storing for later`
-        );
-        // Store candidate for when remote description is set
-        if (!this.pendingCandidates.has(socketId)) {
-          this.pendingCandidates.set(socketId, []);
-        }
-        this.pendingCandidates.get(socketId)!.push(candidate);
-      }
+      await peerConnection.addIceCandidate(candidate);
     } catch (error) {
-      console.error(`❌ Error adding ICE candidate for ${socketId}:`, error);
+      // Candidates for an offer we ignored are expected to fail
+      if (!this.negotiation.get(direction)?.ignoreOffer) {
+        console.error(`❌ Error adding ${direction} ICE candidate:`, error);
+      }
     }
   }
 
   // Process pending ICE candidates after remote description is set
-  private async processPendingCandidates(socketId: string): Promise<void> {
-    const pendingCandidates = this.pendingCandidates.get(socketId);
+  private async processPendingCandidates(
+    direction: TransportDirection
+  ): Promise<void> {
+    const pendingCandidates = this.pendingCandidates.get(direction);
     if (!pendingCandidates || pendingCandidates.length === 0) {
       return;
     }
 
-    const peerConnection = this.peerConnections.get(socketId);
+    const peerConnection = this.peerConnections.get(direction);
     if (!peerConnection || !peerConnection.remoteDescription) {
       return;
     }
 
     console.log(
-      `🔄 Processing ${pendingCandidates.length} pending ICE candidates for ${socketId}`
+      `🔄 Processing ${pendingCandidates.length} pending ${direction} ICE candidates`
     );
 
+    // Clear before adding so candidates arriving meanwhile aren't dropped
+    this.pendingCandidates.delete(direction);
+
     for (const candidate of pendingCandidates) {
       try {
         await peerConnection.addIceCandidate(candidate);
-        console.log(`✅ Added pending ICE candidate for ${socketId}`);
       } catch (error) {
         console.error(
-          `❌ Error adding pending ICE candidate for ${socketId}:`,
+          `❌ Error adding pending ${direction} ICE candidate:`,
           error
         );
       }
     }
-
-    // Clear processed candidates
-    this.pendingCandidates.delete(socketId);
   }
 
   // Handle user leaving
   private handleUserLeft(socketId: string): void {
-    // Close peer connection
-    const peerConnection = this.peerConnections.get(socketId);
-    if (peerConnection) {
-      peerConnection.close();
-      this.peerConnections.delete(socketId);
+    // Remove remote streams
+    this.remoteStreams.delete(socketId);
+    this.remoteStreams.delete(toStreamId(socketId, "screen"));
+    this.videoSizes.delete(socketId);
+    this.hiddenTiles.delete(socketId);
+    this.e2ee?.handleParticipantLeft(socketId);
+    annotationStore.clear(socketId);
+
+    // Remove from state
+    const state = useGlobalState.getState();
+    state.removeParticipant(socketId);
+    if (state.pinnedParticipants.includes(socketId)) {
+      state.setPinnedParticipants(
+        state.pinnedParticipants.filter((id) => id !== socketId)
+      );
     }
+  }
 
-    // Remove remote stream
-    this.remoteStreams.delete(socketId);
+  // Retry ICE with exponential backoff until the transport is connected
+  // again; a transport that doesn't come back is rebuilt
+  private scheduleIceRestart(direction: TransportDirection): void {
+    const recovery = this.iceRecovery.get(direction) || { attempts: 0 };
+    if (recovery.timer) return;
 
-    // Clean up pending signaling data
-    this.pendingOffers.delete(socketId);
-    this.pendingAnswers.delete(socketId);
-    this.pendingCandidates.delete(socketId);
-    this.processingAnswers.delete(socketId);
-    this.processingOffers.delete(socketId);
-
-    // Clear any processing timeout
-    const timeout = this.processingTimeouts.get(socketId);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.processingTimeouts.delete(socketId);
+    const delay = Math.min(
+      ICE_RESTART_BASE_DELAY_MS * 2 ** recovery.attempts,
+      ICE_RESTART_MAX_DELAY_MS
+    );
+    recovery.timer = setTimeout(() => {
+      recovery.timer = undefined;
+      const peerConnection = this.peerConnections.get(direction);
+      if (!peerConnection || this.iceRecovery.get(direction) !== recovery) {
+        return;
+      }
+
+      // The last restart had its full delay to connect
+      if (recovery.attempts >= ICE_RESTART_MAX_ATTEMPTS) {
+        console.warn(`⚠️ ICE restarts of ${direction} transport failed`);
+        this.restartNegotiation(direction);
+        return;
+      }
+
+      recovery.attempts++;
+      this.restartIce(direction, peerConnection);
+      // Next attempt, unless this one gets the transport connected first
+      this.scheduleIceRestart(direction);
+    }, delay);
+    this.iceRecovery.set(direction, recovery);
+  }
+
+  // The publish transport is ours to re-offer; the subscribe transport is
+  // offered by the SFU, which is asked to restart ICE on it
+  private restartIce(
+    direction: TransportDirection,
+    peerConnection: RTCPeerConnection
+  ): void {
+    console.log(`🧊 Restarting ICE on ${direction} transport`);
+
+    if (direction === "publish") {
+      // Fires negotiationneeded, which sends an offer with new credentials
+      peerConnection.restartIce();
+    } else {
+      this.request("restart-ice", { transport: direction });
+    }
+  }
+
+  private clearIceRecovery(direction: TransportDirection): void {
+    const recovery = this.iceRecovery.get(direction);
+    if (recovery?.timer) clearTimeout(recovery.timer);
+    this.iceRecovery.delete(direction);
+  }
+
+  private updateReconnecting(): void {
+    const isReconnecting =
+      this.isResuming ||
+      Array.from(this.peerConnections.values()).some(
+        (peerConnection) =>
+          peerConnection.connectionState === "disconnected" ||
+          peerConnection.connectionState === "failed"
+      );
+
+    if (useGlobalState.getState().isReconnecting !== isReconnecting) {
+      useGlobalState.getState().setIsReconnecting(isReconnecting);
     }
+  }
 
-    // Remove from state
-    useGlobalState.getState().removeParticipant(socketId);
+  private handleParticipantResumed(data: {
+    previousSocketId: string;
+    socketId: string;
+    userId: string;
+    name?: string;
+    email?: string;
+    isAudioEnabled: boolean;
+    isVideoEnabled: boolean;
+    isScreenSharing: boolean;
+  }): void {
+    const { previousSocketId, socketId } = data;
+    const state = useGlobalState.getState();
+    const previous = state.participants.get(previousSocketId);
+
+    // Its media comes back as new tracks on the new socket id
+    this.remoteStreams.delete(previousSocketId);
+    this.e2ee?.handleParticipantLeft(previousSocketId);
+
+    const size = this.videoSizes.get(previousSocketId);
+    this.videoSizes.delete(previousSocketId);
+    if (size) this.setVideoSize(socketId, size.width, size.height);
+
+    if (this.hiddenTiles.delete(previousSocketId)) {
+      this.hiddenTiles.add(socketId);
+    }
+
+    state.removeParticipant(previousSocketId);
+    state.addParticipant({
+      id: data.userId,
+      name: previous?.name || data.name || "Unknown User",
+      email: previous?.email || data.email || "",
+      socketId,
+      isAudioEnabled: data.isAudioEnabled,
+      isVideoEnabled: data.isVideoEnabled,
+      isScreenSharing: data.isScreenSharing,
+    });
+
+    if (state.activeSpeaker === previousSocketId) {
+      state.setActiveSpeaker(socketId);
+    }
+    if (state.pinnedParticipants.includes(previousSocketId)) {
+      const pinned = state.pinnedParticipants.map((id) =>
+        id === previousSocketId ? socketId : id
+      );
+      state.setPinnedParticipants(pinned);
+      this.request("pin-participants", { socketIds: pinned });
+    }
+    this.reportVideoVisibility();
   }
 
-  // Restart negotiation for failed connections
-  private async restartNegotiation(socketId: string): Promise<void> {
-    console.log(`Restarting negotiation with ${socketId}`);
+  // Restart a failed transport from scratch
+  private async restartNegotiation(
+    direction: TransportDirection
+  ): Promise<void> {
+    console.log(`Restarting ${direction} transport`);
+    this.clearIceRecovery(direction);
 
     // Clean up existing connection
-    const existingConnection = this.peerConnections.get(socketId);
+    const existingConnection = this.peerConnections.get(direction);
     if (existingConnection) {
       existingConnection.close();
-      this.peerConnections.delete(socketId);
+      this.peerConnections.delete(direction);
     }
+    this.pendingCandidates.delete(direction);
+    this.negotiation.delete(direction);
+    this.updateReconnecting();
 
-    // Create new connection as initiator
-    try {
-      await this.createPeerConnection(socketId, true);
-    } catch (error) {
-      console.error(`Failed to restart negotiation with ${socketId}:`, error);
+    if (!this.socket) return;
+
+    // The SFU drops its side and re-offers the subscribe transport itself
+    this.request("restart-transport", { transport: direction });
+
+    if (direction === "publish") {
+      this.createPublishTransport();
+    }
+  }
+
+  // Tiles that can't be seen don't need video; the SFU pauses it and sends
+  // a fresh keyframe once the tile is visible again
+  setTileVisible(socketId: string, visible: boolean): void {
+    if (visible) {
+      this.hiddenTiles.delete(socketId);
+    } else {
+      this.hiddenTiles.add(socketId);
+    }
+    this.reportVideoVisibility();
+  }
+
+  private reportVideoVisibility = (): void => {
+    const hidden = Array.from(this.hiddenTiles).sort();
+    const pageHidden = document.visibilityState === "hidden";
+    const report = `${pageHidden}:${hidden.join()}`;
+    if (report === this.lastVisibilityReport) return;
+
+    this.lastVisibilityReport = report;
+
+    this.request("video-visibility", { hidden, pageHidden });
+  };
+
+  // Report the rendered size of a remote tile so the SFU can pick a layer
+  setVideoSize(socketId: string, width: number, height: number): void {
+    const size = { width: Math.round(width), height: Math.round(height) };
+    const previous = this.videoSizes.get(socketId);
+    if (
+      previous &&
+      previous.width === size.width &&
+      previous.height === size.height
+    ) {
+      return;
     }
+
+    this.videoSizes.set(socketId, size);
+
+    this.request("video-size", { socketId, ...size });
   }
 
   // Toggle audio
@@ -736,9 +1566,7 @@ class WebRTCService {
 
     state.toggleAudio();
 
-    if (this.socket) {
-      this.socket.emit("toggle-audio", { enabled: newState });
-    }
+    this.request("toggle-audio", { enabled: newState });
   }
 
   // Toggle video
@@ -754,157 +1582,181 @@ class WebRTCService {
 
     state.toggleVideo();
 
-    if (this.socket) {
-      this.socket.emit("toggle-video", { enabled: newState });
-    }
+    this.request("toggle-video", { enabled: newState });
   }
 
-  // Toggle screen share
-  async toggleScreenShare(): Promise<void> {
-    const state = useGlobalState.getState();
-    const isScreenSharing = state.isScreenSharing;
+  // Pinned participants always get their video forwarded, beyond last-N
+  togglePin(socketId: string): void {
+    const { pinnedParticipants, setPinnedParticipants } =
+      useGlobalState.getState();
+    const pinned = pinnedParticipants.includes(socketId)
+      ? pinnedParticipants.filter((id) => id !== socketId)
+      : [...pinnedParticipants, socketId];
 
-    if (!isScreenSharing) {
-      try {
-        const screenStream = await this.getScreenShare();
+    setPinnedParticipants(pinned);
 
-        // Replace video track in all peer connections
-        const videoTrack = screenStream.getVideoTracks()[0];
+    this.request("pin-participants", { socketIds: pinned });
+  }
 
-        this.peerConnections.forEach(async (peerConnection) => {
-          const sender = peerConnection
-            .getSenders()
-            .find((s) => s.track && s.track.kind === "video");
+  // Start or stop the server-side recording (host only); the layout is
+  // used when the tracks are composited into a single MP4
+  toggleRecording(layout: "grid" | "speaker"): void {
+    const { isRecording } = useGlobalState.getState();
 
-          if (sender) {
-            await sender.replaceTrack(videoTrack);
-          }
-        });
+    if (isRecording) {
+      this.request("stop-recording", {});
+    } else {
+      this.request("start-recording", { layout });
+    }
+  }
+
+  // Toggle screen share
+  async toggleScreenShare(
+    options: { withAudio?: boolean } = {}
+  ): Promise<void> {
+    if (this.screenStream) {
+      this.stopScreenShare();
+      return;
+    }
 
-        useGlobalState.getState().toggleScreenShare();
+    try {
+      const screenStream = await this.getScreenShare(options.withAudio);
+      const [videoTrack] = screenStream.getVideoTracks();
 
-        if (this.socket) {
-          this.socket.emit("start-screen-share");
-        }
+      this.screenStream = screenStream;
+      useGlobalState.getState().setLocalScreenStream(screenStream);
+      this.publishScreenShare();
 
-        // Handle screen share end
-        videoTrack.onended = () => {
-          this.stopScreenShare();
-        };
-      } catch (error) {
-        console.error("Error starting screen share:", error);
-      }
-    } else {
-      this.stopScreenShare();
+      this.request("start-screen-share", {});
+
+      // Sharing can also be ended from the browser's own controls
+      videoTrack.onended = () => {
+        if (this.screenStream === screenStream) this.stopScreenShare();
+      };
+    } catch (error) {
+      console.error("Error starting screen share:", error);
     }
   }
 
-  // Stop screen share
-  private async stopScreenShare(): Promise<void> {
-    if (this.localStream) {
-      const videoTrack = this.localStream.getVideoTracks()[0];
+  // Stop screen share; the offer without it makes the SFU drop the track
+  private stopScreenShare(): void {
+    const screenStream = this.screenStream;
+    if (!screenStream) return;
 
-      // Replace screen share track with camera track
-      this.peerConnections.forEach(async (peerConnection) => {
-        const sender = peerConnection
-          .getSenders()
-          .find((s) => s.track && s.track.kind === "video");
+    this.screenStream = null;
+    const peerConnection = this.peerConnections.get("publish");
+    this.screenSenders.forEach((sender) => {
+      if (peerConnection?.getSenders().includes(sender)) {
+        peerConnection.removeTrack(sender);
+      }
+    });
+    this.screenSenders = [];
+    screenStream.getTracks().forEach((track) => track.stop());
 
-        if (sender && videoTrack) {
-          await sender.replaceTrack(videoTrack);
-        }
-      });
-    }
+    useGlobalState.getState().setLocalScreenStream(null);
+    annotationStore.clear("local");
 
-    useGlobalState.getState().toggleScreenShare();
+    this.request("stop-screen-share", {});
+  }
 
-    if (this.socket) {
-      this.socket.emit("stop-screen-share");
-    }
+  // Socket id our annotations are attributed to, which picks their color
+  get annotationAuthorId(): string {
+    return this.socket?.id ?? "local";
   }
 
-  // Start collecting connection statistics
-  private startStatsCollection(): void {
-    if (this.statsInterval) {
-      clearInterval(this.statsInterval);
-    }
+  // Draw on a screen share; presenterKey is the participant key of the
+  // presenter ("local" for our own share)
+  drawAnnotation(
+    presenterKey: string,
+    strokeId: string,
+    tool: AnnotationTool,
+    points: AnnotationPoint[]
+  ): void {
+    const presenterId = this.toPresenterId(presenterKey);
+    if (!presenterId) return;
+
+    annotationStore.addPoints(
+      presenterKey,
+      this.annotationAuthorId,
+      strokeId,
+      tool,
+      points
+    );
+    this.request("annotation-stroke", { presenterId, strokeId, tool, points });
+  }
 
-    this.statsInterval = setInterval(async () => {
-      const stats = await this.collectConnectionStats();
+  pointAnnotation(presenterKey: string, point: AnnotationPoint | null): void {
+    const presenterId = this.toPresenterId(presenterKey);
+    if (!presenterId) return;
 
-      if (this.socket && stats.latency > 0) {
-        this.socket.emit("stats-update", stats);
-      }
+    annotationStore.setPointer(presenterKey, this.annotationAuthorId, point);
+    this.request("annotation-pointer", { presenterId, point });
+  }
 
-      // Check for stale connections
-      this.checkStaleConnections();
-    }, 5000); // Update every 5 seconds
+  // Clears everyone's annotations on the presentation
+  clearAnnotations(presenterKey: string): void {
+    const presenterId = this.toPresenterId(presenterKey);
+    if (!presenterId) return;
+
+    annotationStore.clear(presenterKey);
+    this.request("annotation-clear", { presenterId });
   }
 
-  // Check for stale or failed connections
-  private checkStaleConnections(): void {
-    this.peerConnections.forEach((peerConnection, socketId) => {
-      if (
-        peerConnection.connectionState === "failed" ||
-        peerConnection.connectionState === "disconnected"
-      ) {
-        console.log(`Cleaning up stale connection for ${socketId}`);
-        this.handleUserLeft(socketId);
-      }
+  private toPresenterId(presenterKey: string): string | undefined {
+    return presenterKey === "local" ? this.socket?.id : presenterKey;
+  }
 
-      // Check for stuck signaling states
-      if (
-        peerConnection.signalingState === "have-local-offer" ||
-        peerConnection.signalingState === "have-remote-offer"
-      ) {
-        console.log(
-          `Connection stuck in signaling state ${peerConnection.signalingState} for ${socketId}`
-        );
-        // Could implement timeout-based restart here if needed
-      }
-    });
+  // The meeting's whiteboard document; edits to it are shared with the room
+  getWhiteboard(): Y.Doc {
+    return (this.whiteboard ?? this.syncWhiteboard()).doc;
+  }
+
+  // Sends a chat message to everyone, or only to the participant with the
+  // given socket id. Resolves to false if it wasn't delivered.
+  async sendChatMessage(text: string, to?: string): Promise<boolean> {
+    const result = await this.request("chat-message", { text, to });
+    if (!result.ok) return false;
+
+    useGlobalState.getState().addChatMessages([result.message]);
+    return true;
+  }
 
-    // Retry pending messages for connections that are now ready
-    this.retryPendingAnswers();
-    this.retryPendingOffers();
+  private async loadChatHistory(): Promise<void> {
+    const result = await this.request("chat-history", {});
+    if (result.ok) {
+      useGlobalState.getState().addChatMessages(result.messages);
+    }
   }
 
-  // Retry pending answers for ready connections
-  private retryPendingAnswers(): void {
-    this.pendingAnswers.forEach((answer, socketId) => {
-      const peerConnection = this.peerConnections.get(socketId);
+  private syncWhiteboard(): WhiteboardSync {
+    if (!this.whiteboard) {
+      this.whiteboard = new WhiteboardSync((event, data) =>
+        this.request(event, data)
+      );
+    }
 
-      if (
-        peerConnection &&
-        peerConnection.signalingState === "have-local-offer" &&
-        !peerConnection.remoteDescription &&
-        !this.processingAnswers.has(socketId)
-      ) {
-        console.log(`🔄 Retrying pending answer for ${socketId}`);
-        this.pendingAnswers.delete(socketId);
-        // Use setTimeout to avoid recursive calls
-        setTimeout(() => this.handleAnswer(socketId, answer), 0);
-      }
+    this.whiteboard.sync().catch((error) => {
+      console.error("❌ Whiteboard sync failed:", error);
     });
+    return this.whiteboard;
   }
 
-  // Retry pending offers for ready connections
-  private retryPendingOffers(): void {
-    this.pendingOffers.forEach((offer, socketId) => {
-      const peerConnection = this.peerConnections.get(socketId);
+  // Start collecting connection statistics
+  private startStatsCollection(): void {
+    if (this.statsInterval) {
+      clearInterval(this.statsInterval);
+    }
+
+    this.statsInterval = setInterval(async () => {
+      const stats = await this.collectConnectionStats();
 
-      if (
-        peerConnection &&
-        peerConnection.signalingState === "stable" &&
-        !peerConnection.remoteDescription &&
-        !this.processingOffers.has(socketId)
-      ) {
-        console.log(`🔄 Retrying pending offer for ${socketId}`);
-        this.pendingOffers.delete(socketId);
-        // Use setTimeout to avoid recursive calls
-        setTimeout(() => this.handleOffer(socketId, offer), 0);
+      if (this.socket && stats.latency > 0) {
+        const result = await this.request("stats-update", stats);
+        if (result.ok) {
+          useGlobalState.getState().setConnectionStats(result.stats);
+        }
       }
-    });
+    }, 5000); // Update every 5 seconds
   }
 
   // Collect connection statistics
@@ -917,7 +1769,7 @@ class WebRTCService {
     let totalBandwidthDown = 0;
     let connectionCount = 0;
 
-    for (const [socketId, peerConnection] of this.peerConnections) {
+    for (const [direction, peerConnection] of this.peerConnections) {
       try {
         const stats = await peerConnection.getStats();
 
@@ -945,7 +1797,7 @@ class WebRTCService {
           }
         });
       } catch (error) {
-        console.error("Error collecting stats for", socketId, error);
+        console.error(`Error collecting stats for ${direction}`, error);
       }
     }
 
@@ -966,6 +1818,27 @@ class WebRTCService {
     });
     this.peerConnections.clear();
 
+    navigator.mediaDevices?.removeEventListener(
+      "devicechange",
+      this.handleDeviceChange
+    );
+
+    if (this.backgroundProcessor) {
+      this.backgroundProcessor.stop();
+      this.backgroundProcessor.input.stop();
+      this.backgroundProcessor = null;
+    }
+    if (this.noiseSuppressor) {
+      this.noiseSuppressor.stop();
+      this.noiseSuppressor.input.stop();
+      this.noiseSuppressor = null;
+    }
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach((track) => track.stop());
+      this.screenStream = null;
+      this.screenSenders = [];
+    }
+
     // Stop local stream
     if (this.localStream) {
       this.localStream.getTracks().forEach((track) => track.stop());
@@ -974,29 +1847,49 @@ class WebRTCService {
 
     // Clear remote streams
     this.remoteStreams.clear();
+    this.videoSizes.clear();
+    this.hiddenTiles.clear();
+    this.lastVisibilityReport = "";
+    document.removeEventListener(
+      "visibilitychange",
+      this.reportVideoVisibility
+    );
 
-    // Clean up all pending signaling data
-    this.pendingOffers.clear();
-    this.pendingAnswers.clear();
+    // Clean up pending signaling data
     this.pendingCandidates.clear();
-    this.processingAnswers.clear();
-    this.processingOffers.clear();
-
-    // Clear all processing timeouts
-    this.processingTimeouts.forEach((timeout) => clearTimeout(timeout));
-    this.processingTimeouts.clear();
+    this.negotiation.clear();
+    this.iceRecovery.forEach((_, direction) => this.clearIceRecovery(direction));
+
+    if (this.e2ee) {
+      this.e2ee.stop();
+      this.e2ee = null;
+      const { iceServers } = this.configuration;
+      this.configuration = { iceServers };
+    }
+    this.e2eeKeyPair = null;
+    this.safetyNumbers.clear();
 
     // Stop stats collection
     if (this.statsInterval) {
       clearInterval(this.statsInterval);
       this.statsInterval = null;
     }
+    if (this.wakeTimer) {
+      clearInterval(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    this.session = null;
+    this.isResuming = false;
 
     // Emit leave event
     if (this.socket) {
-      this.socket.emit("leave-meeting");
+      this.request("leave-meeting", {});
     }
 
+    annotationStore.clearAll();
+    this.whiteboard?.destroy();
+    this.whiteboard = null;
+
     // Clear meeting state
     useGlobalState.getState().clearMeetingState();
   }
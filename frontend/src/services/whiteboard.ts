@@ -0,0 +1,112 @@
+// The meeting whiteboard is a Yjs document: a map of elements by id, each
+// replaced whole when it changes. Concurrent edits to different elements
+// merge; the last edit of the same element wins. The server stores the
+// updates against the meeting and relays them to everyone else.
+
+import * as Y from "yjs";
+import type { Ack, ClientPayload } from "@shared/signaling";
+
+// Elements are positioned on a fixed board, scaled to fit the panel
+export const BOARD_WIDTH = 1600;
+export const BOARD_HEIGHT = 900;
+
+interface ElementBase {
+  id: string;
+  color: string;
+  // Board-wide drawing order
+  createdAt: number;
+}
+
+export type WhiteboardElement = ElementBase &
+  (
+    | { type: "pen"; points: [number, number][] }
+    | {
+        type: "rect" | "ellipse" | "line";
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+      }
+    | {
+        type: "sticky";
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        text: string;
+      }
+    | { type: "text"; x: number; y: number; text: string }
+  );
+
+// Marks updates that came from the server, so they aren't sent back
+const REMOTE_ORIGIN = "remote";
+
+type Request = <E extends "whiteboard-sync" | "whiteboard-update">(
+  event: E,
+  data: ClientPayload<E>
+) => Promise<Ack<E>>;
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (data: string) =>
+  Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
+export const getElements = (doc: Y.Doc) =>
+  doc.getMap<WhiteboardElement>("elements");
+
+export const sortElements = (doc: Y.Doc) =>
+  Array.from(getElements(doc).values()).sort(
+    (a, b) => a.createdAt - b.createdAt
+  );
+
+// A board opened after the call, from the update the API returns
+export const loadBoard = (update: string | null) => {
+  const doc = new Y.Doc();
+  if (update) Y.applyUpdate(doc, fromBase64(update));
+  return doc;
+};
+
+export class WhiteboardSync {
+  readonly doc = new Y.Doc();
+
+  constructor(private request: Request) {
+    this.doc.on("update", (update: Uint8Array, origin: unknown) => {
+      if (origin === REMOTE_ORIGIN) return;
+      this.request("whiteboard-update", { update: toBase64(update) });
+    });
+  }
+
+  // Merge the stored board into ours and send back whatever it lacks, such
+  // as edits made while we were disconnected
+  async sync(): Promise<void> {
+    const result = await this.request("whiteboard-sync", {});
+    if (!result.ok) return;
+
+    let stateVector: Uint8Array | undefined;
+    if (result.update) {
+      const update = fromBase64(result.update);
+      Y.applyUpdate(this.doc, update, REMOTE_ORIGIN);
+      stateVector = Y.encodeStateVectorFromUpdate(update);
+    }
+
+    const missing = Y.encodeStateAsUpdate(this.doc, stateVector);
+    // An update with no changes encodes as two zero bytes
+    if (missing.length > 2) {
+      this.request("whiteboard-update", { update: toBase64(missing) });
+    }
+  }
+
+  applyRemote(update: string): void {
+    Y.applyUpdate(this.doc, fromBase64(update), REMOTE_ORIGIN);
+  }
+
+  destroy(): void {
+    this.doc.destroy();
+  }
+}
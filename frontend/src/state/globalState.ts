@@ -1,5 +1,9 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { ChatMessage, ConnectionStats } from "@shared/signaling";
+import type { BackgroundEffect } from "../services/backgroundProcessor";
+
+export type { ConnectionStats };
 
 // Types
 export interface User {
@@ -15,19 +19,36 @@ export interface Meeting {
   host: User;
   participants: User[];
   isActive: boolean;
+  videoCodecs?: string[];
+  lastN?: number;
+  e2ee?: boolean;
   createdAt: string;
   endedAt?: string;
+  recordings?: Recording[];
 }
 
-export interface ConnectionStats {
+export interface RecordingTrack {
+  file: string;
+  kind: "audio" | "video";
+  source: "camera" | "screen";
   socketId: string;
-  userId: string;
-  joinedAt: Date;
-  latency: number;
-  bandwidth: {
-    up: number;
-    down: number;
-  };
+  userId?: string;
+  startOffset: number;
+  endOffset?: number;
+}
+
+export interface Recording {
+  id: string;
+  recordingId: string;
+  status: "recording" | "queued" | "processing" | "ready" | "failed";
+  layout: "grid" | "speaker";
+  progress: number;
+  startedBy: User;
+  startedAt: string;
+  stoppedAt?: string;
+  completedAt?: string;
+  error?: string;
+  tracks: RecordingTrack[];
 }
 
 export interface Participant extends User {
@@ -36,7 +57,26 @@ export interface Participant extends User {
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
   stream?: MediaStream;
+  // Delivered separately from the camera while they present
+  screenStream?: MediaStream;
   connectionStats?: ConnectionStats;
+  // Media connection dropped; the SFU keeps the seat during its grace period
+  isReconnecting?: boolean;
+  // Encrypted meetings: compared out of band to rule out a swapped key
+  safetyNumber?: string;
+  // Differs from an earlier number of the same user; compare again
+  safetyNumberChanged?: boolean;
+}
+
+export type DeviceKind = "audioinput" | "videoinput" | "audiooutput";
+
+// Device ids last chosen in the settings panel, by kind
+export type DevicePreferences = Partial<Record<DeviceKind, string>>;
+
+export interface NoiseSuppressionSettings {
+  enabled: boolean;
+  // 0..1, how much of the denoised signal replaces the original
+  strength: number;
 }
 
 interface AuthState {
@@ -56,11 +96,24 @@ interface MeetingState {
   currentMeeting: Meeting | null;
   participants: Map<string, Participant>;
   localStream: MediaStream | null;
+  // Our screen share, published next to the camera
+  localScreenStream: MediaStream | null;
   isAudioEnabled: boolean;
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
   connectionStats: ConnectionStats[];
   isHost: boolean;
+  // Socket id of the dominant speaker ("local" for the current user)
+  activeSpeaker: string | null;
+  audioLevels: Record<string, number>;
+  isRecording: boolean;
+  pinnedParticipants: string[];
+  // Socket ids whose video the SFU forwards to us (null until it reports)
+  forwardedVideo: string[] | null;
+  // Our own media connection is being recovered
+  isReconnecting: boolean;
+  // Oldest first, including direct messages to or from us
+  chatMessages: ChatMessage[];
 
   // Actions
   setCurrentMeeting: (meeting: Meeting | null) => void;
@@ -70,13 +123,35 @@ interface MeetingState {
   setLocalStream: (stream: MediaStream | null) => void;
   toggleAudio: () => void;
   toggleVideo: () => void;
-  toggleScreenShare: () => void;
+  setLocalScreenStream: (stream: MediaStream | null) => void;
   setConnectionStats: (stats: ConnectionStats[]) => void;
   setIsHost: (isHost: boolean) => void;
+  setActiveSpeaker: (socketId: string | null) => void;
+  setAudioLevels: (levels: Record<string, number>) => void;
+  setIsRecording: (isRecording: boolean) => void;
+  setPinnedParticipants: (socketIds: string[]) => void;
+  setForwardedVideo: (socketIds: string[] | null) => void;
+  setIsReconnecting: (isReconnecting: boolean) => void;
+  // Merges by id, so the backlog and live messages can arrive in any order
+  addChatMessages: (messages: ChatMessage[]) => void;
   clearMeetingState: () => void;
 }
 
-type GlobalState = AuthState & MeetingState;
+interface DeviceState {
+  // Cameras, microphones and speakers, refreshed on devicechange
+  mediaDevices: MediaDeviceInfo[];
+  // Saved per user id, so a shared browser keeps everyone's choice
+  devicePreferences: Record<string, DevicePreferences>;
+  backgroundEffect: BackgroundEffect;
+  noiseSuppression: NoiseSuppressionSettings;
+
+  setMediaDevices: (devices: MediaDeviceInfo[]) => void;
+  setDevicePreference: (kind: DeviceKind, deviceId: string) => void;
+  setBackgroundEffect: (effect: BackgroundEffect) => void;
+  setNoiseSuppression: (settings: NoiseSuppressionSettings) => void;
+}
+
+type GlobalState = AuthState & MeetingState & DeviceState;
 
 export const useGlobalState = create<GlobalState>()(
   persist(
@@ -92,11 +167,25 @@ export const useGlobalState = create<GlobalState>()(
       currentMeeting: null,
       participants: new Map(),
       localStream: null,
+      localScreenStream: null,
       isAudioEnabled: true,
       isVideoEnabled: true,
       isScreenSharing: false,
       connectionStats: [],
       isHost: false,
+      activeSpeaker: null,
+      audioLevels: {},
+      isRecording: false,
+      pinnedParticipants: [],
+      forwardedVideo: null,
+      isReconnecting: false,
+      chatMessages: [],
+
+      // Device state
+      mediaDevices: [],
+      devicePreferences: {},
+      backgroundEffect: { type: "none" },
+      noiseSuppression: { enabled: false, strength: 1 },
 
       // Auth actions
       setUser: (user) => set({ user, isAuthenticated: !!user }),
@@ -109,11 +198,19 @@ export const useGlobalState = create<GlobalState>()(
           currentMeeting: null,
           participants: new Map(),
           localStream: null,
+          localScreenStream: null,
           isAudioEnabled: true,
           isVideoEnabled: true,
           isScreenSharing: false,
           connectionStats: [],
           isHost: false,
+          activeSpeaker: null,
+          audioLevels: {},
+          isRecording: false,
+          pinnedParticipants: [],
+          forwardedVideo: null,
+          isReconnecting: false,
+          chatMessages: [],
         }),
       setIsLoading: (isLoading) => set({ isLoading }),
       setHasHydrated: (hasHydrated) => set({ hasHydrated }),
@@ -169,24 +266,77 @@ export const useGlobalState = create<GlobalState>()(
           return { isVideoEnabled: newState };
         }),
 
-      toggleScreenShare: () =>
-        set((state) => ({ isScreenSharing: !state.isScreenSharing })),
+      setLocalScreenStream: (stream) =>
+        set({ localScreenStream: stream, isScreenSharing: !!stream }),
 
       setConnectionStats: (stats) => set({ connectionStats: stats }),
 
       setIsHost: (isHost) => set({ isHost }),
 
+      setActiveSpeaker: (socketId) => set({ activeSpeaker: socketId }),
+
+      setAudioLevels: (levels) => set({ audioLevels: levels }),
+
+      setIsRecording: (isRecording) => set({ isRecording }),
+
+      setPinnedParticipants: (socketIds) =>
+        set({ pinnedParticipants: socketIds }),
+
+      setForwardedVideo: (socketIds) => set({ forwardedVideo: socketIds }),
+
+      setIsReconnecting: (isReconnecting) => set({ isReconnecting }),
+
+      addChatMessages: (messages) =>
+        set((state) => {
+          const byId = new Map(
+            state.chatMessages.map((message) => [message.id, message])
+          );
+          messages.forEach((message) => byId.set(message.id, message));
+          return {
+            chatMessages: Array.from(byId.values()).sort((a, b) =>
+              a.sentAt.localeCompare(b.sentAt)
+            ),
+          };
+        }),
+
       clearMeetingState: () =>
         set({
           currentMeeting: null,
           participants: new Map(),
           localStream: null,
+          localScreenStream: null,
           isAudioEnabled: true,
           isVideoEnabled: true,
           isScreenSharing: false,
           connectionStats: [],
           isHost: false,
+          activeSpeaker: null,
+          audioLevels: {},
+          isRecording: false,
+          pinnedParticipants: [],
+          forwardedVideo: null,
+          isReconnecting: false,
+          chatMessages: [],
         }),
+
+      // Device actions
+      setMediaDevices: (devices) => set({ mediaDevices: devices }),
+
+      setDevicePreference: (kind, deviceId) =>
+        set((state) => {
+          if (!state.user) return {};
+          const current = state.devicePreferences[state.user.id] || {};
+          return {
+            devicePreferences: {
+              ...state.devicePreferences,
+              [state.user.id]: { ...current, [kind]: deviceId },
+            },
+          };
+        }),
+
+      setBackgroundEffect: (effect) => set({ backgroundEffect: effect }),
+
+      setNoiseSuppression: (settings) => set({ noiseSuppression: settings }),
     }),
     {
       name: "auth-storage",
@@ -194,6 +344,7 @@ export const useGlobalState = create<GlobalState>()(
         user: state.user,
         token: state.token,
         isAuthenticated: state.isAuthenticated,
+        devicePreferences: state.devicePreferences,
       }),
       onRehydrateStorage: () => (state) => {
         state?.setHasHydrated(true);
@@ -202,6 +353,20 @@ export const useGlobalState = create<GlobalState>()(
   )
 );
 
+// Saved speaker of the current user, if it is plugged in ("" plays through
+// the system default)
+export const selectAudioOutputId = (state: GlobalState) => {
+  const deviceId =
+    state.user && state.devicePreferences[state.user.id]?.audiooutput;
+  return deviceId &&
+    state.mediaDevices.some(
+      (device) =>
+        device.kind === "audiooutput" && device.deviceId === deviceId
+    )
+    ? deviceId
+    : "";
+};
+
 // Set up auth logout event listener
 if (typeof window !== "undefined") {
   window.addEventListener("auth-logout", () => {
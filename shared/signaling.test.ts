@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { SafeParseReturnType } from "zod";
+import { clientEvents, describeIssue, parseStreamId, toStreamId } from "./signaling";
+
+const issueOf = (result: SafeParseReturnType<unknown, unknown>) =>
+  result.success ? null : describeIssue(result.error);
+
+describe("clientEvents", () => {
+  it("applies the join defaults of older clients", () => {
+    expect(clientEvents["join-meeting"].parse({ meetingId: "meeting-1" })).toEqual({
+      meetingId: "meeting-1",
+      isAudioEnabled: true,
+      isVideoEnabled: true,
+    });
+  });
+
+  it("requires a uuid session token to resume", () => {
+    const payload = {
+      meetingId: "meeting-1",
+      previousSocketId: "socket-1",
+      sessionToken: "not-a-token",
+      isAudioEnabled: true,
+      isVideoEnabled: false,
+    };
+
+    expect(issueOf(clientEvents["resume-session"].safeParse(payload))).toMatch(/^sessionToken: /);
+    expect(
+      clientEvents["resume-session"].safeParse({
+        ...payload,
+        sessionToken: "4f9c2a4e-4c6b-4d2e-9a4b-2f5d8c1e7a90",
+      }).success
+    ).toBe(true);
+  });
+
+  it("rejects extra fields on events without a payload", () => {
+    expect(clientEvents["leave-meeting"].safeParse({}).success).toBe(true);
+    expect(clientEvents["leave-meeting"].safeParse({ meetingId: "meeting-1" }).success).toBe(false);
+  });
+
+  it("accepts offers on the publish transport only", () => {
+    const offer = { type: "offer", sdp: "v=0" };
+
+    expect(clientEvents.offer.safeParse({ transport: "publish", offer }).success).toBe(true);
+    expect(issueOf(clientEvents.offer.safeParse({ transport: "subscribe", offer }))).toMatch(/^transport: /);
+    expect(
+      issueOf(clientEvents.offer.safeParse({ transport: "publish", offer: { type: "answer", sdp: "v=0" } }))
+    ).toMatch(/^offer\.type: /);
+  });
+
+  it("fills in an empty end-of-candidates candidate", () => {
+    expect(
+      clientEvents["ice-candidate"].parse({ transport: "subscribe", candidate: { sdpMid: "0" } })
+    ).toEqual({ transport: "subscribe", candidate: { candidate: "", sdpMid: "0" } });
+  });
+
+  it("checks E2EE keys are base64", () => {
+    const key = { to: "socket-1", keyId: 3, iv: "AAECAwQFBgcICQoL", key: "q83vEjRWeJA=" };
+
+    expect(clientEvents["e2ee-key"].safeParse(key).success).toBe(true);
+    expect(issueOf(clientEvents["e2ee-key"].safeParse({ ...key, key: "not base64!" }))).toMatch(/^key: /);
+    expect(issueOf(clientEvents["e2ee-key"].safeParse({ ...key, keyId: 256 }))).toMatch(/^keyId: /);
+  });
+
+  it("keeps annotation points inside the shared frame", () => {
+    const stroke = { presenterId: "socket-1", strokeId: "stroke-1", tool: "pen", points: [[0, 1]] };
+
+    expect(clientEvents["annotation-stroke"].safeParse(stroke).success).toBe(true);
+    expect(
+      issueOf(clientEvents["annotation-stroke"].safeParse({ ...stroke, points: [[0.5, 1.5]] }))
+    ).toMatch(/^points\.0\.1: /);
+    expect(clientEvents["annotation-stroke"].safeParse({ ...stroke, points: [] }).success).toBe(false);
+  });
+
+  it("trims chat messages and rejects blank ones", () => {
+    expect(clientEvents["chat-message"].parse({ text: "  hello  " })).toEqual({ text: "hello" });
+    expect(issueOf(clientEvents["chat-message"].safeParse({ text: "   " }))).toMatch(/^text: /);
+  });
+
+  it("defaults the recording layout to grid", () => {
+    expect(clientEvents["start-recording"].parse({})).toEqual({ layout: "grid" });
+    expect(clientEvents["start-recording"].safeParse({ layout: "mosaic" }).success).toBe(false);
+  });
+});
+
+describe("describeIssue", () => {
+  it("names the payload when the issue is at its root", () => {
+    expect(issueOf(clientEvents["toggle-audio"].safeParse("on"))).toMatch(/^payload: /);
+  });
+});
+
+describe("stream ids", () => {
+  it("round-trips camera and screen stream ids", () => {
+    expect(parseStreamId(toStreamId("socket-1", "camera"))).toEqual({ socketId: "socket-1", source: "camera" });
+    expect(parseStreamId(toStreamId("socket-1", "screen"))).toEqual({ socketId: "socket-1", source: "screen" });
+  });
+});
@@ -0,0 +1,300 @@
+// Socket.IO signaling protocol between the RelayRTC frontend and backend.
+//
+// Every event a client sends is listed in `clientEvents` with the schema its
+// payload must match; the server validates each one and answers through the
+// Socket.IO acknowledgement with an `Ack`. Events the server sends are typed
+// in `ServerToClientEvents`.
+
+import { z } from "zod";
+
+export const transportDirection = z.enum(["publish", "subscribe"]);
+export type TransportDirection = z.infer<typeof transportDirection>;
+
+export const recordingLayout = z.enum(["grid", "speaker"]);
+export type RecordingLayout = z.infer<typeof recordingLayout>;
+
+const socketId = z.string().min(1).max(64);
+const codecName = z.string().min(1).max(16);
+
+const sessionDescription = (type: "offer" | "answer") =>
+  z.object({
+    type: z.literal(type),
+    sdp: z.string().min(1).max(100_000),
+  });
+
+const iceCandidate = z.object({
+  candidate: z.string().max(1024).default(""),
+  sdpMid: z.string().max(32).nullish(),
+  sdpMLineIndex: z.number().int().min(0).nullish(),
+  usernameFragment: z.string().max(256).nullish(),
+});
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+const base64 = z.string().max(1024).regex(BASE64);
+// Yjs update of the whiteboard; kept under Socket.IO's 1 MB message limit
+const boardUpdate = z.string().min(1).max(512_000).regex(BASE64);
+// Markdown source of a chat message
+const chatText = z.string().trim().min(1).max(4000);
+
+const mediaState = {
+  isAudioEnabled: z.boolean(),
+  isVideoEnabled: z.boolean(),
+};
+
+// Chosen in the lobby; older clients join with both enabled
+const initialMediaState = {
+  isAudioEnabled: z.boolean().default(true),
+  isVideoEnabled: z.boolean().default(true),
+};
+
+const empty = z.object({}).strict();
+
+// Annotations on a screen share are positioned relative to the shared
+// frame, 0..1 on each axis, so they line up at any tile size
+const normalized = z.number().min(0).max(1);
+const annotationPoint = z.tuple([normalized, normalized]);
+export type AnnotationPoint = z.infer<typeof annotationPoint>;
+
+export const annotationTool = z.enum(["pen", "highlighter"]);
+export type AnnotationTool = z.infer<typeof annotationTool>;
+
+// Which capture a published track comes from ("camera" includes the mic)
+export type TrackSource = "camera" | "screen";
+
+// The SFU delivers a publisher's camera and microphone in a stream named
+// after its socket id, and its screen share in a stream of its own
+const SCREEN_STREAM_SUFFIX = ":screen";
+
+export const toStreamId = (socketId: string, source: TrackSource) =>
+  source === "screen" ? socketId + SCREEN_STREAM_SUFFIX : socketId;
+
+export const parseStreamId = (streamId: string): { socketId: string; source: TrackSource } =>
+  streamId.endsWith(SCREEN_STREAM_SUFFIX)
+    ? { socketId: streamId.slice(0, -SCREEN_STREAM_SUFFIX.length), source: "screen" }
+    : { socketId: streamId, source: "camera" };
+
+export const clientEvents = {
+  "join-meeting": z.object({
+    meetingId: z.string().min(1).max(64),
+    receiveCodecs: z.array(codecName).max(16).optional(),
+    ...initialMediaState,
+  }),
+  "resume-session": z.object({
+    meetingId: z.string().min(1).max(64),
+    previousSocketId: socketId,
+    sessionToken: z.string().uuid(),
+    receiveCodecs: z.array(codecName).max(16).optional(),
+    ...mediaState,
+  }),
+  "leave-meeting": empty,
+  offer: z.object({
+    transport: z.literal("publish"),
+    offer: sessionDescription("offer"),
+    // Stream id (msid) of the screen share in this offer; other tracks are camera
+    screenStreamId: z.string().min(1).max(64).optional(),
+  }),
+  answer: z.object({
+    transport: z.literal("subscribe"),
+    answer: sessionDescription("answer"),
+  }),
+  "ice-candidate": z.object({
+    transport: transportDirection,
+    candidate: iceCandidate,
+  }),
+  "restart-transport": z.object({ transport: transportDirection }),
+  "restart-ice": z.object({ transport: z.literal("subscribe") }),
+  "video-size": z.object({
+    socketId,
+    width: z.number().int().min(0).max(10_000),
+    height: z.number().int().min(0).max(10_000),
+  }),
+  "pin-participants": z.object({ socketIds: z.array(socketId).max(100) }),
+  "video-visibility": z.object({
+    hidden: z.array(socketId).max(1000),
+    pageHidden: z.boolean(),
+  }),
+  "start-recording": z.object({ layout: recordingLayout.default("grid") }),
+  "stop-recording": empty,
+  "e2ee-public-key": z.object({ publicKey: base64, to: socketId.optional() }),
+  "e2ee-key": z.object({
+    to: socketId,
+    keyId: z.number().int().min(0).max(255),
+    iv: base64,
+    key: base64,
+  }),
+  "toggle-audio": z.object({ enabled: z.boolean() }),
+  "toggle-video": z.object({ enabled: z.boolean() }),
+  "start-screen-share": empty,
+  "stop-screen-share": empty,
+  // Points are appended to the stroke as they are drawn, a batch at a time
+  "annotation-stroke": z.object({
+    presenterId: socketId,
+    strokeId: z.string().min(1).max(64),
+    tool: annotationTool,
+    points: z.array(annotationPoint).min(1).max(256),
+  }),
+  // Laser pointer position; null when it leaves the screen
+  "annotation-pointer": z.object({
+    presenterId: socketId,
+    point: annotationPoint.nullable(),
+  }),
+  "annotation-clear": z.object({ presenterId: socketId }),
+  // Whole board in the ack, for late joiners and after reconnecting
+  "whiteboard-sync": empty,
+  "whiteboard-update": z.object({ update: boardUpdate }),
+  // Sent to everyone, or only to the participant in `to`
+  "chat-message": z.object({ text: chatText, to: socketId.optional() }),
+  // Backlog in the ack, for late joiners and after reconnecting
+  "chat-history": empty,
+  "stats-update": z.object({
+    latency: z.number().min(0).max(60_000),
+    bandwidth: z.object({
+      up: z.number().min(0),
+      down: z.number().min(0),
+    }),
+  }),
+};
+
+export interface SessionDescription {
+  type: "offer" | "answer";
+  sdp: string;
+}
+
+export type IceCandidate = z.output<typeof iceCandidate>;
+
+export type ClientEvent = keyof typeof clientEvents;
+export type ClientPayload<E extends ClientEvent> = z.input<(typeof clientEvents)[E]>;
+// Payload as seen by a handler, after defaults are applied
+export type ParsedClientPayload<E extends ClientEvent> = z.output<(typeof clientEvents)[E]>;
+
+export type AckErrorCode =
+  | "INVALID_PAYLOAD"
+  | "NOT_IN_MEETING"
+  | "MEETING_NOT_FOUND"
+  | "SESSION_EXPIRED"
+  | "FORBIDDEN"
+  | "INTERNAL";
+
+export interface AckError {
+  code: AckErrorCode;
+  message: string;
+}
+
+export interface ConnectionStats {
+  socketId: string;
+  userId: string;
+  joinedAt: string;
+  latency: number;
+  bandwidth: {
+    up: number;
+    down: number;
+  };
+  isAudioEnabled: boolean;
+  isVideoEnabled: boolean;
+  isScreenSharing: boolean;
+}
+
+export interface ChatParticipant {
+  userId: string;
+  name?: string;
+  // Socket at the time of sending; gone once they leave or reconnect
+  socketId: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  from: ChatParticipant;
+  // Set on direct messages
+  to?: ChatParticipant;
+  text: string;
+  sentAt: string;
+}
+
+// Data returned with a successful ack, by event
+export interface AckData {
+  "stats-update": { stats: ConnectionStats[] };
+  // null while the meeting's board is empty
+  "whiteboard-sync": { update: string | null };
+  "chat-message": { message: ChatMessage };
+  // Oldest first; direct messages only between the caller and someone else
+  "chat-history": { messages: ChatMessage[] };
+}
+
+export type Ack<E extends ClientEvent> =
+  | ({ ok: true } & (E extends keyof AckData ? AckData[E] : object))
+  | { ok: false; error: AckError };
+
+export type ClientToServerEvents = {
+  [E in ClientEvent]: (payload: ClientPayload<E>, ack?: (result: Ack<E>) => void) => void;
+};
+
+export interface ExistingParticipant extends ConnectionStats {
+  name?: string;
+  email?: string;
+}
+
+export interface ServerToClientEvents {
+  "room-info": (data: {
+    meetingId: string;
+    participants: ConnectionStats[];
+    isHost: boolean;
+    isRecording: boolean;
+    videoCodecs: string[];
+    e2ee: boolean;
+    sessionToken: string;
+  }) => void;
+  "existing-participants": (participants: ExistingParticipant[]) => void;
+  "user-joined": (data: {
+    userId: string;
+    socketId: string;
+    name?: string;
+    email?: string;
+    isAudioEnabled: boolean;
+    isVideoEnabled: boolean;
+  }) => void;
+  "user-left": (data: { socketId: string }) => void;
+  "participant-resumed": (data: {
+    previousSocketId: string;
+    socketId: string;
+    userId: string;
+    name?: string;
+    email?: string;
+    isAudioEnabled: boolean;
+    isVideoEnabled: boolean;
+    isScreenSharing: boolean;
+  }) => void;
+  "participant-connection": (data: { socketId: string; state: "reconnecting" | "connected" }) => void;
+  offer: (data: { transport: "subscribe"; offer: SessionDescription }) => void;
+  answer: (data: { transport: "publish"; answer: SessionDescription }) => void;
+  "ice-candidate": (data: { transport: TransportDirection; candidate: IceCandidate }) => void;
+  "video-codecs-changed": (data: { videoCodecs: string[] }) => void;
+  // The meeting's media moved to another node; transports must be rebuilt
+  "media-node-changed": () => void;
+  "e2ee-public-key": (data: { from: string; publicKey: string; to?: string }) => void;
+  "e2ee-key": (data: { from: string; to: string; keyId: number; iv: string; key: string }) => void;
+  "user-audio-toggled": (data: { socketId: string; enabled: boolean }) => void;
+  "user-video-toggled": (data: { socketId: string; enabled: boolean }) => void;
+  "user-screen-share-toggled": (data: { socketId: string; enabled: boolean }) => void;
+  "annotation-stroke": (data: ParsedClientPayload<"annotation-stroke"> & { from: string }) => void;
+  "annotation-pointer": (data: ParsedClientPayload<"annotation-pointer"> & { from: string }) => void;
+  "annotation-clear": (data: ParsedClientPayload<"annotation-clear"> & { from: string }) => void;
+  "whiteboard-update": (data: { update: string; from: string }) => void;
+  "chat-message": (message: ChatMessage) => void;
+  "active-speaker-changed": (data: { socketId: string }) => void;
+  "audio-levels": (data: { levels: Record<string, number> }) => void;
+  "forwarded-video": (data: { socketIds: string[] }) => void;
+  "recording-started": (data: { recordingId: string; startedAt: Date }) => void;
+  "recording-stopped": (data: { recordingId: string }) => void;
+  // Failures of work the media node does after a request was acknowledged
+  error: (error: { message: string }) => void;
+}
+
+export type ServerEvent = keyof ServerToClientEvents;
+export type ServerArgs<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>;
+export type ServerPayload<E extends ServerEvent> = ServerArgs<E>[0];
+
+// Formats the first validation issue for an ack error
+export const describeIssue = (error: z.ZodError) => {
+  const [issue] = error.issues;
+  return issue ? `${issue.path.join(".") || "payload"}: ${issue.message}` : "Invalid payload";
+};